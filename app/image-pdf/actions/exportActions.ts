@@ -1,80 +1,158 @@
 import type {
   BoundingBox,
+  CoordinateOrigin,
   ExportData,
+  OCRSettings,
   OCRTextData,
   PDFDocumentInfo,
+  PreprocessingStep,
+  TableExportFormat,
+  TableStructure,
+  Unit,
 } from '../utils/types';
-import { convertToUnits } from '../utils/coordinateConversion';
+import {
+  UNITS,
+  convertRectToUnits,
+  getDpiScale,
+  toCoordinateOrigin,
+  toRoundedUnitRect,
+} from '../utils/coordinateConversion';
+import { getUniqueFieldNames, resolveBoxField } from '../utils/boxFields';
+import {
+  createPdfmeTemplate,
+  readFileAsDataUrl,
+  toPdfmePageBoxes,
+} from '../utils/pdfmeTemplate';
+import {
+  displayRectToUserSpace,
+  getDisplayViewport,
+  getPageGeometries,
+} from '../utils/pageGeometry';
+import { createSearchablePDF } from '../utils/searchablePdf';
+import {
+  buildOCRHierarchy,
+  toALTO,
+  toHOCR,
+  type OCRFormatPage,
+} from '../utils/ocrFormats';
+import { tableToCSV, tableToHTML, tableToXLSX } from '../utils/tableExport';
+import { buildZonalRecords } from '../utils/zonalOcr';
 
-export const exportBoundingBoxes = (
+// Blobをファイルとしてダウンロード
+const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// ボックスのあるページの表示座標とPDFユーザー空間の対応を取得
+const getBoxPageGeometries = async (
+  boundingBoxes: BoundingBox[],
+  pdfInfo: PDFDocumentInfo
+) => {
+  if (!pdfInfo.document) return {};
+  return getPageGeometries(
+    pdfInfo.document,
+    boundingBoxes.map((box) => box.page ?? pdfInfo.currentPage)
+  );
+};
+
+export const exportBoundingBoxes = async (
   boundingBoxes: BoundingBox[],
   pdfInfo: PDFDocumentInfo,
-  ocrSettings: {
-    language: string;
-    level: string;
-    minConfidence: number;
-    enhanceImage: boolean;
-  }
-): void => {
+  ocrSettings: OCRSettings,
+  preprocessingSteps: PreprocessingStep[],
+  coordinateOrigin: CoordinateOrigin = 'top-left'
+): Promise<void> => {
+  const geometryByPage = await getBoxPageGeometries(boundingBoxes, pdfInfo);
+  const fieldNames = getUniqueFieldNames(boundingBoxes);
+
   const data: ExportData = {
     filename: pdfInfo.file?.name || 'unknown.pdf',
-    page: pdfInfo.currentPage,
-    dpi: 300,
+    totalPages: pdfInfo.totalPages,
+    dpi: pdfInfo.renderDpi,
     timestamp: new Date().toISOString(),
     metadata: {
       ocrLanguage: ocrSettings.language,
       ocrLevel: ocrSettings.level,
       ocrMinConfidence: ocrSettings.minConfidence,
-      ocrEnhanceImage: ocrSettings.enhanceImage,
+      preprocessingSteps,
+      ocrTextSource: ocrSettings.textSource,
+      ocrPageSegMode: ocrSettings.pageSegMode,
+      ocrEngineMode: ocrSettings.engineMode,
+      ocrCharWhitelist: ocrSettings.charWhitelist,
+      ocrCharBlacklist: ocrSettings.charBlacklist,
+      ocrPreserveInterwordSpaces: ocrSettings.preserveInterwordSpaces,
+      ocrUserDpi: ocrSettings.userDpi,
       totalBoundingBoxes: boundingBoxes.length,
+      coordinateOrigin,
     },
-    boundingBoxes: boundingBoxes.map((box, index) => ({
-      id: box.id,
-      index: index + 1,
-      kind: box.kind,
-      pt: {
-        x: convertToUnits(box.x, box.unit, 'pt'),
-        y: convertToUnits(box.y, box.unit, 'pt'),
-        width: convertToUnits(box.width, box.unit, 'pt'),
-        height: convertToUnits(box.height, box.unit, 'pt'),
-      },
-      px: {
-        x: convertToUnits(box.x, box.unit, 'px'),
-        y: convertToUnits(box.y, box.unit, 'px'),
-        width: convertToUnits(box.width, box.unit, 'px'),
-        height: convertToUnits(box.height, box.unit, 'px'),
-      },
-      mm: {
-        x: convertToUnits(box.x, box.unit, 'mm'),
-        y: convertToUnits(box.y, box.unit, 'mm'),
-        width: convertToUnits(box.width, box.unit, 'mm'),
-        height: convertToUnits(box.height, box.unit, 'mm'),
-      },
-    })),
+    pages: Object.values(geometryByPage),
+    boundingBoxes: boundingBoxes.map((box, index) => {
+      const page = box.page ?? pdfInfo.currentPage;
+      const geometry = geometryByPage[page];
+      const pt = convertRectToUnits(box, box.unit, 'pt');
+      // 左下原点はページの表示上の高さから反転する
+      const y = geometry
+        ? toCoordinateOrigin(pt.y, pt.height, geometry.height, coordinateOrigin)
+        : pt.y;
+      return {
+        id: box.id,
+        index: index + 1,
+        page,
+        kind: box.kind,
+        field: { ...resolveBoxField(box, index), name: fieldNames[index] },
+        ...(Object.fromEntries(
+          UNITS.map((unit) => [unit, toRoundedUnitRect({ ...pt, y }, unit)])
+        ) as Record<Unit, ReturnType<typeof toRoundedUnitRect>>),
+        pdf: geometry ? displayRectToUserSpace(geometry, pt) : null,
+      };
+    }),
   };
 
   const blob = new Blob([JSON.stringify(data, null, 2)], {
     type: 'application/json',
   });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `${pdfInfo.file?.name || 'pdf'}-bboxes-${
+  downloadBlob(blob, `${pdfInfo.file?.name || 'pdf'}-bboxes.json`);
+};
+
+export const exportPdfmeTemplate = async (
+  boundingBoxes: BoundingBox[],
+  pdfInfo: PDFDocumentInfo
+): Promise<void> => {
+  if (!pdfInfo.file) {
+    alert('PDFが読み込まれていません。まずPDFをアップロードしてください。');
+    return;
+  }
+
+  const basePdf = await readFileAsDataUrl(pdfInfo.file);
+  const pageBoxes = await toPdfmePageBoxes(
+    await pdfInfo.file.arrayBuffer(),
+    boundingBoxes,
+    await getBoxPageGeometries(boundingBoxes, pdfInfo),
     pdfInfo.currentPage
-  }.json`;
-  a.click();
-  URL.revokeObjectURL(url);
+  );
+  const template = createPdfmeTemplate(
+    basePdf,
+    pageBoxes,
+    pdfInfo.totalPages,
+    pdfInfo.currentPage
+  );
+
+  const blob = new Blob([JSON.stringify(template, null, 2)], {
+    type: 'application/json',
+  });
+  downloadBlob(blob, `${pdfInfo.file.name}-pdfme-template.json`);
 };
 
 export const exportOCRTextData = (
   ocrTextData: OCRTextData | null,
   pdfInfo: PDFDocumentInfo,
-  ocrSettings: {
-    language: string;
-    level: string;
-    minConfidence: number;
-    enhanceImage: boolean;
-  }
+  ocrSettings: OCRSettings,
+  preprocessingSteps: PreprocessingStep[]
 ): void => {
   if (!ocrTextData) {
     alert(
@@ -86,21 +164,171 @@ export const exportOCRTextData = (
   const data = {
     filename: pdfInfo.file?.name || 'unknown.pdf',
     page: pdfInfo.currentPage,
-    dpi: 300,
+    // bbox.original はOCR実行時の解像度の画像座標
+    dpi: ocrTextData.dpi ?? pdfInfo.renderDpi,
     timestamp: new Date().toISOString(),
     ocrSettings,
+    preprocessingSteps,
     ocrResults: ocrTextData,
   };
 
   const blob = new Blob([JSON.stringify(data, null, 2)], {
     type: 'application/json',
   });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `${pdfInfo.file?.name || 'pdf'}-ocr-text-${
-    pdfInfo.currentPage
-  }.json`;
-  a.click();
-  URL.revokeObjectURL(url);
+  downloadBlob(
+    blob,
+    `${pdfInfo.file?.name || 'pdf'}-ocr-text-${pdfInfo.currentPage}.json`
+  );
+};
+
+export const exportZonalValues = (
+  boundingBoxes: BoundingBox[],
+  textDataByPage: Record<number, OCRTextData>,
+  pdfInfo: PDFDocumentInfo
+): void => {
+  const records = buildZonalRecords(boundingBoxes, textDataByPage);
+
+  if (records.length === 0) {
+    alert(
+      'OCR済みのページに手動ボックスがありません。抽出したい項目をボックスで囲み、OCRを実行してください。'
+    );
+    return;
+  }
+
+  const data = {
+    filename: pdfInfo.file?.name || 'unknown.pdf',
+    timestamp: new Date().toISOString(),
+    records,
+  };
+
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: 'application/json',
+  });
+  downloadBlob(blob, `${pdfInfo.file?.name || 'pdf'}-zonal-values.json`);
+};
+
+export const exportSearchablePDF = async (
+  textDataByPage: Record<number, OCRTextData>,
+  pdfInfo: PDFDocumentInfo
+): Promise<void> => {
+  if (!pdfInfo.file) {
+    alert('PDFが読み込まれていません。まずPDFをアップロードしてください。');
+    return;
+  }
+
+  if (Object.keys(textDataByPage).length === 0) {
+    alert(
+      'OCRが実行されていないか、文字データがありません。まずOCRを実行してください。'
+    );
+    return;
+  }
+
+  const { bytes, skippedCount } = await createSearchablePDF(
+    await pdfInfo.file.arrayBuffer(),
+    textDataByPage,
+    pdfInfo.document
+      ? await getPageGeometries(
+          pdfInfo.document,
+          Object.keys(textDataByPage).map(Number)
+        )
+      : {}
+  );
+
+  if (skippedCount > 0) {
+    alert(
+      `${skippedCount}語は位置またはテキストがないため、テキストレイヤーに含まれていません。`
+    );
+  }
+
+  const blob = new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+  downloadBlob(
+    blob,
+    `${pdfInfo.file.name.replace(/\.pdf$/i, '')}-searchable.pdf`
+  );
+};
+
+// ページをdpiで描画した場合の画像サイズを取得
+export const getPageImageSize = async (
+  pdfDocument: PDFDocumentInfo['document'],
+  pageNum: number,
+  dpi: number
+): Promise<{ width: number; height: number }> => {
+  const page = await pdfDocument.getPage(pageNum);
+  const viewport = getDisplayViewport(page, getDpiScale(dpi));
+  return { width: viewport.width, height: viewport.height };
+};
+
+export const exportOCRFormat = async (
+  textDataByPage: Record<number, OCRTextData>,
+  pdfInfo: PDFDocumentInfo,
+  format: 'hocr' | 'alto'
+): Promise<void> => {
+  const pageNumbers = Object.keys(textDataByPage)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  if (pageNumbers.length === 0 || !pdfInfo.document) {
+    alert(
+      'OCRが実行されていないか、文字データがありません。まずOCRを実行してください。'
+    );
+    return;
+  }
+
+  const pages: OCRFormatPage[] = await Promise.all(
+    pageNumbers.map(async (pageNumber) => {
+      const textData = textDataByPage[pageNumber];
+      // ページごとにOCR実行時の解像度で出力する
+      const dpi = textData.dpi ?? pdfInfo.renderDpi;
+      return {
+        pageNumber,
+        ...(await getPageImageSize(pdfInfo.document, pageNumber, dpi)),
+        dpi,
+        blocks: buildOCRHierarchy(textData),
+      };
+    })
+  );
+
+  const filename = pdfInfo.file?.name || 'pdf';
+  if (format === 'hocr') {
+    const blob = new Blob([toHOCR(pages, filename)], {
+      type: 'text/html',
+    });
+    downloadBlob(blob, `${filename}-ocr.hocr`);
+  } else {
+    const blob = new Blob([toALTO(pages, filename)], {
+      type: 'application/xml',
+    });
+    downloadBlob(blob, `${filename}-alto.xml`);
+  }
+};
+
+export const exportTable = async (
+  table: TableStructure,
+  tableIndex: number,
+  pdfInfo: PDFDocumentInfo,
+  format: TableExportFormat
+): Promise<void> => {
+  const filename = pdfInfo.file?.name || 'pdf';
+  const basename = `${filename}-p${table.page ?? pdfInfo.currentPage}-table${
+    tableIndex + 1
+  }`;
+
+  if (format === 'csv') {
+    // Excelで文字化けしないようBOMを付ける
+    const blob = new Blob(['\uFEFF' + tableToCSV(table)], {
+      type: 'text/csv',
+    });
+    downloadBlob(blob, `${basename}.csv`);
+  } else if (format === 'html') {
+    const blob = new Blob([tableToHTML(table, basename)], {
+      type: 'text/html',
+    });
+    downloadBlob(blob, `${basename}.html`);
+  } else {
+    const buffer = await tableToXLSX(table, `Table ${tableIndex + 1}`);
+    const blob = new Blob([buffer], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+    downloadBlob(blob, `${basename}.xlsx`);
+  }
 };
@@ -0,0 +1,61 @@
+import type { OCRTextData, PDFDocumentInfo } from '../utils/types';
+import type { CoordinateConversion } from '../utils/coordinateConversion';
+import {
+  flattenOCRHierarchy,
+  parseALTO,
+  parseHOCR,
+  scaleOCRPage,
+} from '../utils/ocrFormats';
+import { getPageImageSize } from './exportActions';
+
+/**
+ * hOCR / ALTO ファイルを読み込み、ページごとのOCR結果に変換
+ * 座標は各ページを描画解像度（renderDpi）で描画した画像の座標に合わせて拡大縮小する
+ */
+export const importOCRFile = async (
+  file: File,
+  pdfInfo: PDFDocumentInfo,
+  convertToPDFCoords: (
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => CoordinateConversion | null
+): Promise<Record<number, OCRTextData>> => {
+  if (!pdfInfo.document) {
+    throw new Error('PDFが読み込まれていません');
+  }
+
+  const source = await file.text();
+  const pages = /<alto[\s>]/i.test(source)
+    ? parseALTO(source)
+    : parseHOCR(source);
+
+  if (pages.length === 0) {
+    throw new Error('hOCR / ALTO のページが見つかりません');
+  }
+
+  const result: Record<number, OCRTextData> = {};
+  for (const page of pages) {
+    if (page.pageNumber < 1 || page.pageNumber > pdfInfo.totalPages) {
+      console.warn('[v0] Skipping OCR page outside document:', page.pageNumber);
+      continue;
+    }
+
+    const size = await getPageImageSize(
+      pdfInfo.document,
+      page.pageNumber,
+      pdfInfo.renderDpi
+    );
+    result[page.pageNumber] = {
+      ...flattenOCRHierarchy(
+        scaleOCRPage(page, size.width, size.height, pdfInfo.renderDpi),
+        convertToPDFCoords
+      ),
+      dpi: pdfInfo.renderDpi,
+    };
+  }
+
+  console.log('[v0] Imported OCR pages:', Object.keys(result));
+  return result;
+};
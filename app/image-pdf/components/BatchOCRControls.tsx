@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Layers, Square } from 'lucide-react';
+import type { BatchOCRProgress, OCRPageStatus } from '../utils/types';
+
+interface BatchOCRControlsProps {
+  totalPages: number;
+  progress: BatchOCRProgress | null;
+  onRunBatchOCR: (fromPage: number, toPage: number) => void;
+  onCancel: () => void;
+  isProcessing: boolean;
+  isEnabled: boolean;
+}
+
+const statusColors: Record<OCRPageStatus, string> = {
+  pending: 'bg-gray-200 text-gray-600',
+  processing: 'bg-blue-500 text-white animate-pulse',
+  done: 'bg-emerald-500 text-white',
+  error: 'bg-red-500 text-white',
+  cancelled: 'bg-yellow-400 text-gray-800',
+};
+
+export const BatchOCRControls: React.FC<BatchOCRControlsProps> = ({
+  totalPages,
+  progress,
+  onRunBatchOCR,
+  onCancel,
+  isProcessing,
+  isEnabled,
+}) => {
+  const [fromPage, setFromPage] = useState(1);
+  const [toPage, setToPage] = useState(totalPages);
+
+  // 新しいPDFが読み込まれたら範囲を全ページにリセット
+  useEffect(() => {
+    setFromPage(1);
+    setToPage(totalPages);
+  }, [totalPages]);
+
+  const clampPage = (value: number) =>
+    Math.min(Math.max(1, Math.round(value) || 1), Math.max(1, totalPages));
+
+  const isBatchRunning = isProcessing && progress?.currentPage != null;
+  const overallPercent = progress
+    ? ((progress.completed + (isBatchRunning ? progress.pageProgress : 0)) /
+        progress.pages.length) *
+      100
+    : 0;
+
+  return (
+    <div className='space-y-3'>
+      <Label>Batch OCR</Label>
+      <div className='grid grid-cols-3 gap-2 items-end'>
+        <div>
+          <Label className='text-xs'>From</Label>
+          <input
+            type='number'
+            min={1}
+            max={totalPages}
+            value={fromPage}
+            onChange={(e) => setFromPage(clampPage(Number(e.target.value)))}
+            className='w-full h-8 rounded border border-border px-2 text-sm bg-background'
+          />
+        </div>
+        <div>
+          <Label className='text-xs'>To</Label>
+          <input
+            type='number'
+            min={1}
+            max={totalPages}
+            value={toPage}
+            onChange={(e) => setToPage(clampPage(Number(e.target.value)))}
+            className='w-full h-8 rounded border border-border px-2 text-sm bg-background'
+          />
+        </div>
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={() => {
+            setFromPage(1);
+            setToPage(totalPages);
+          }}
+          disabled={isProcessing}
+        >
+          All
+        </Button>
+      </div>
+
+      {isBatchRunning ? (
+        <Button onClick={onCancel} className='w-full' variant='destructive'>
+          <Square className='w-4 h-4 mr-2' />
+          Cancel Batch OCR
+        </Button>
+      ) : (
+        <Button
+          onClick={() =>
+            onRunBatchOCR(
+              Math.min(fromPage, toPage),
+              Math.max(fromPage, toPage)
+            )
+          }
+          disabled={isProcessing || !isEnabled}
+          className='w-full'
+          variant='outline'
+        >
+          <Layers className='w-4 h-4 mr-2' />
+          OCR Pages {Math.min(fromPage, toPage)}–{Math.max(fromPage, toPage)}
+        </Button>
+      )}
+
+      {progress && (
+        <div className='space-y-2 text-xs text-muted-foreground'>
+          <div>
+            {progress.completed} / {progress.pages.length} pages
+            {progress.currentPage != null &&
+              ` — page ${progress.currentPage}: ${Math.round(
+                progress.pageProgress * 100
+              )}%`}
+          </div>
+          <div className='w-full bg-gray-200 rounded-full h-2'>
+            <div
+              className='bg-blue-600 h-2 rounded-full transition-all duration-300'
+              style={{ width: `${overallPercent}%` }}
+            />
+          </div>
+          <div className='flex flex-wrap gap-1'>
+            {progress.pages.map((page) => (
+              <span
+                key={page}
+                title={`Page ${page}: ${progress.statuses[page]}`}
+                className={`px-1.5 rounded ${
+                  statusColors[progress.statuses[page]]
+                }`}
+              >
+                {page}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      <p className='text-xs text-muted-foreground'>
+        キャンセルすると処理中のページの完了後に停止します
+      </p>
+    </div>
+  );
+};
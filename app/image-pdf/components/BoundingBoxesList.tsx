@@ -1,19 +1,68 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import type { BoundingBox, OCRTextData } from '../utils/types';
+import { Download } from 'lucide-react';
+import { BoxFieldEditor } from './BoxFieldEditor';
+import { extractZonalValue, isZonalBox } from '../utils/zonalOcr';
+import { resolveBoxField } from '../utils/boxFields';
+import {
+  UNIT_COLORS,
+  UNIT_LABELS,
+  convertRectToUnits,
+  toCoordinateOrigin,
+  toRoundedUnitRect,
+} from '../utils/coordinateConversion';
+import type {
+  BoundingBox,
+  BoxField,
+  CoordinateOrigin,
+  Unit,
+  OCRTextData,
+  TableExportFormat,
+  TableStructure,
+} from '../utils/types';
 
 interface BoundingBoxesListProps {
   boundingBoxes: BoundingBox[];
+  // 全ページのボックスから決めたフィールド名（ボックスID → 名前）
+  fieldNames: Record<string, string>;
+  tables: TableStructure[];
+  currentPage: number;
+  documentTotal: number;
   ocrTextData: OCRTextData | null;
-  selectedUnit: 'px' | 'mm' | 'pt';
+  selectedUnit: Unit;
+  coordinateOrigin: CoordinateOrigin;
+  // 現在のページの表示上の高さ（pt、左下原点の計算に使う）
+  pageHeight: number | null;
+  onExportTable: (
+    table: TableStructure,
+    tableIndex: number,
+    format: TableExportFormat
+  ) => void;
+  onUpdateField: (boxId: string, field: BoxField) => void;
 }
 
 export const BoundingBoxesList: React.FC<BoundingBoxesListProps> = ({
   boundingBoxes,
+  fieldNames,
+  tables,
+  currentPage,
+  documentTotal,
   ocrTextData,
   selectedUnit,
+  coordinateOrigin,
+  pageHeight,
+  onExportTable,
+  onUpdateField,
 }) => {
+  // ページ内で重複しているフィールド名
+  const fieldNameCounts = boundingBoxes.reduce((acc, box) => {
+    const name = box.field?.name.trim();
+    if (name) acc[name] = (acc[name] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
   const tableBoxes = boundingBoxes.filter((box) => box.kind === 'table');
   const lineBoxes = tableBoxes.filter((box) => box.id.includes('line'));
   const cellBoxes = tableBoxes.filter((box) => box.id.includes('cell'));
@@ -38,40 +87,29 @@ export const BoundingBoxesList: React.FC<BoundingBoxesListProps> = ({
     return 'text-emerald-600';
   };
 
-  const convertToUnits = (
-    value: number,
-    fromUnit: 'px' | 'mm' | 'pt',
-    toUnit: 'px' | 'mm' | 'pt'
-  ) => {
-    if (fromUnit === toUnit) return value;
-
-    // Convert to points first, then to target unit
-    let points: number;
-    if (fromUnit === 'px') {
-      points = value * 0.75; // pixels to points
-    } else if (fromUnit === 'mm') {
-      points = value * 2.834645669; // mm to points
-    } else {
-      points = value; // already in points
-    }
-
-    let result: number;
-    if (toUnit === 'px') {
-      result = points / 0.75; // points to pixels
-    } else if (toUnit === 'mm') {
-      result = points / 2.834645669; // points to mm
-    } else {
-      result = points; // keep as points
-    }
+  // 列幅の比率でグリッドの列を定義
+  const getGridTemplateColumns = (table: TableStructure) =>
+    table.columnBoundaries
+      .slice(1)
+      .map((x, i) => `${Math.max(1, x - table.columnBoundaries[i])}fr`)
+      .join(' ');
 
-    return Math.round(result * 100) / 100;
-  };
+  // pt / px / mm は常に表示し、それ以外は既定の単位に選んだときだけ表示する
+  const displayUnits = Array.from(
+    new Set<Unit>(['pt', 'px', 'mm', selectedUnit])
+  );
 
   return (
     <Card className='lg:col-span-1'>
       <CardHeader>
         <CardTitle>
           Bounding Boxes ({boundingBoxes.length})
+          <div className='text-sm font-normal text-muted-foreground mt-1'>
+            Page {currentPage} ({documentTotal} across all pages)
+          </div>
+          <div className='text-sm font-normal text-muted-foreground mt-1'>
+            Origin: {coordinateOrigin}
+          </div>
           {tableBoxes.length > 0 && (
             <div className='text-sm font-normal text-muted-foreground mt-1'>
               Table: {regionBoxes.length} regions, {lineBoxes.length} lines,{' '}
@@ -82,52 +120,91 @@ export const BoundingBoxesList: React.FC<BoundingBoxesListProps> = ({
             <div className='text-sm font-normal text-amber-600 mt-1'>
               OCR: {ocrTextData.words?.length || 0} words,{' '}
               {ocrTextData.lines?.length || 0} lines (
-              {Math.round(ocrTextData.confidence || 0)}% confidence)
+              {Math.round(ocrTextData.confidence || 0)}% confidence
+              {ocrTextData.source === 'pdf' && ', from PDF text'}
+              {ocrTextData.source === 'mixed' && ', PDF text + OCR'})
             </div>
           )}
         </CardTitle>
       </CardHeader>
       <CardContent>
         <div className='space-y-3 max-h-[600px] overflow-y-auto'>
+          {tables.map((table, tableIndex) => (
+            <div
+              key={table.id}
+              className='p-3 border border-border rounded-lg text-sm'
+            >
+              <div className='font-medium mb-2'>
+                <span className='font-semibold text-blue-600'>
+                  Table Structure
+                </span>
+                <span className='text-muted-foreground ml-1'>
+                  #{tableIndex + 1} ({table.rowCount} rows x {table.columnCount}{' '}
+                  cols, {table.cells.length} cells)
+                </span>
+              </div>
+              <div
+                className='grid gap-px bg-border border border-border text-[10px]'
+                style={{ gridTemplateColumns: getGridTemplateColumns(table) }}
+              >
+                {table.cells.map((cell) => (
+                  <div
+                    key={cell.id}
+                    className='bg-background p-1 text-center text-muted-foreground'
+                    style={{
+                      gridRow: `${cell.row + 1} / span ${cell.rowSpan}`,
+                      gridColumn: `${cell.col + 1} / span ${cell.colSpan}`,
+                    }}
+                  >
+                    {cell.text ? (
+                      <div className='text-foreground whitespace-pre-wrap break-words'>
+                        {cell.text}
+                      </div>
+                    ) : (
+                      `${cell.row + 1},${cell.col + 1}`
+                    )}
+                    {(cell.rowSpan > 1 || cell.colSpan > 1) && (
+                      <div className='text-blue-600'>
+                        {cell.rowSpan}x{cell.colSpan}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className='flex gap-1 mt-2'>
+                {(['csv', 'xlsx', 'html'] as const).map((format) => (
+                  <Button
+                    key={format}
+                    size='sm'
+                    variant='outline'
+                    className='h-7 px-2 text-xs'
+                    onClick={() => onExportTable(table, tableIndex, format)}
+                  >
+                    <Download className='w-3 h-3 mr-1' />
+                    {format.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
           {boundingBoxes.map((box, index) => {
-            const ptValues = {
-              x: convertToUnits(box.x, box.unit, 'pt'),
-              y: convertToUnits(box.y, box.unit, 'pt'),
-              width: convertToUnits(box.width, box.unit, 'pt'),
-              height: convertToUnits(box.height, box.unit, 'pt'),
-            };
-
-            const pxValues = {
-              x: convertToUnits(box.x, box.unit, 'px'),
-              y: convertToUnits(box.y, box.unit, 'px'),
-              width: convertToUnits(box.width, box.unit, 'px'),
-              height: convertToUnits(box.height, box.unit, 'px'),
-            };
-
-            const mmValues = {
-              x: convertToUnits(box.x, box.unit, 'mm'),
-              y: convertToUnits(box.y, box.unit, 'mm'),
-              width: convertToUnits(box.width, box.unit, 'mm'),
-              height: convertToUnits(box.height, box.unit, 'mm'),
-            };
+            // 左下原点ではページの高さからY座標を反転してから各単位に変換
+            const ptRect = convertRectToUnits(box, box.unit, 'pt');
+            if (pageHeight !== null) {
+              ptRect.y = toCoordinateOrigin(
+                ptRect.y,
+                ptRect.height,
+                pageHeight,
+                coordinateOrigin
+              );
+            }
 
-            console.log('[v0] BoundingBoxesList mm conversion for box:', {
-              box: {
-                id: box.id,
-                x: box.x,
-                y: box.y,
-                width: box.width,
-                height: box.height,
-                unit: box.unit,
-              },
-              mmValues,
-              calculations: {
-                x_mm: box.x / 2.834645669,
-                y_mm: box.y / 2.834645669,
-                width_mm: box.width / 2.834645669,
-                height_mm: box.height / 2.834645669,
-              },
-            });
+            const fieldName =
+              fieldNames[box.id] ?? resolveBoxField(box, index).name;
+            const zonalValue =
+              ocrTextData && isZonalBox(box)
+                ? extractZonalValue(box, fieldName, ocrTextData)
+                : null;
 
             return (
               <div
@@ -141,51 +218,73 @@ export const BoundingBoxesList: React.FC<BoundingBoxesListProps> = ({
                   <span className='text-muted-foreground ml-1'>
                     #{index + 1}
                   </span>
+                  {box.tableCell && (
+                    <span className='text-muted-foreground ml-1'>
+                      (row {box.tableCell.row + 1}, col {box.tableCell.col + 1}
+                      {(box.tableCell.rowSpan > 1 ||
+                        box.tableCell.colSpan > 1) &&
+                        `, span ${box.tableCell.rowSpan}x${box.tableCell.colSpan}`}
+                      )
+                    </span>
+                  )}
                 </div>
 
                 <div className='space-y-2'>
-                  <div className='text-xs'>
-                    <div className='font-medium text-emerald-600 mb-1'>
-                      Points (pt)
+                  {zonalValue && (
+                    <div className='text-xs'>
+                      <div className='font-medium text-amber-600 mb-1'>
+                        OCR Value ({zonalValue.name})
+                        {zonalValue.wordCount > 0 &&
+                          ` (${zonalValue.confidence}% confidence)`}
+                      </div>
+                      {zonalValue.text ? (
+                        <div className='whitespace-pre-wrap break-words'>
+                          {zonalValue.text}
+                        </div>
+                      ) : (
+                        <div className='text-muted-foreground'>
+                          No text inside this box
+                        </div>
+                      )}
                     </div>
-                    <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
-                      <div>X: {ptValues.x}</div>
-                      <div>Y: {ptValues.y}</div>
-                      <div>W: {ptValues.width}</div>
-                      <div>H: {ptValues.height}</div>
-                    </div>
-                  </div>
+                  )}
 
-                  <div className='text-xs'>
-                    <div className='font-medium text-blue-600 mb-1'>
-                      Pixels (px)
-                    </div>
-                    <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
-                      <div>X: {pxValues.x}</div>
-                      <div>Y: {pxValues.y}</div>
-                      <div>W: {pxValues.width}</div>
-                      <div>H: {pxValues.height}</div>
-                    </div>
-                  </div>
+                  {displayUnits.map((unit) => {
+                    const values = toRoundedUnitRect(ptRect, unit);
+                    return (
+                      <div key={unit} className='text-xs'>
+                        <div
+                          className={`font-medium mb-1 ${UNIT_COLORS[unit]}`}
+                        >
+                          {UNIT_LABELS[unit]}
+                        </div>
+                        <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
+                          <div>X: {values.x}</div>
+                          <div>Y: {values.y}</div>
+                          <div>W: {values.width}</div>
+                          <div>H: {values.height}</div>
+                        </div>
+                      </div>
+                    );
+                  })}
 
-                  <div className='text-xs'>
-                    <div className='font-medium text-purple-600 mb-1'>
-                      Millimeters (mm)
-                    </div>
-                    <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
-                      <div>X: {mmValues.x}</div>
-                      <div>Y: {mmValues.y}</div>
-                      <div>W: {mmValues.width}</div>
-                      <div>H: {mmValues.height}</div>
-                    </div>
-                  </div>
+                  <BoxFieldEditor
+                    field={box.field}
+                    autoName={fieldName}
+                    isDuplicateName={
+                      !!box.field?.name.trim() &&
+                      fieldNameCounts[box.field.name.trim()] > 1
+                    }
+                    onChange={(field) => onUpdateField(box.id, field)}
+                  />
                 </div>
               </div>
             );
           })}
           {boundingBoxes.length === 0 && (
             <div className='text-center text-muted-foreground py-8'>
-              No bounding boxes yet. Draw on the image to create them.
+              No bounding boxes on this page yet. Draw on the image to create
+              them.
             </div>
           )}
         </div>
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import type { BoxField, FieldType } from '../utils/types';
+import { FIELD_TYPE_LABELS } from '../utils/boxFields';
+
+interface BoxFieldEditorProps {
+  field: BoxField | undefined;
+  // 名前が未設定のときにエクスポートで使われる名前
+  autoName: string;
+  isDuplicateName: boolean;
+  onChange: (field: BoxField) => void;
+}
+
+const EMPTY_FIELD: BoxField = { name: '', type: 'text', properties: {} };
+
+const inputClassName =
+  'w-full h-7 rounded border border-border px-2 text-xs bg-background';
+
+export const BoxFieldEditor: React.FC<BoxFieldEditorProps> = ({
+  field,
+  autoName,
+  isDuplicateName,
+  onChange,
+}) => {
+  // 入力中の値（1文字ごとに履歴を積まないよう、フォーカスが外れた時点で確定する）
+  const [draft, setDraft] = useState<BoxField>(field || EMPTY_FIELD);
+  const [properties, setProperties] = useState<Array<[string, string]>>(
+    Object.entries((field || EMPTY_FIELD).properties)
+  );
+
+  // 取り消し・やり直しなどで外部から変更された場合は入力中の値を置き換える
+  useEffect(() => {
+    setDraft(field || EMPTY_FIELD);
+    setProperties(Object.entries((field || EMPTY_FIELD).properties));
+  }, [field]);
+
+  const commitField = (
+    overrides: Partial<BoxField> = {},
+    nextProperties: Array<[string, string]> = properties
+  ) => {
+    const next: BoxField = {
+      name: draft.name.trim(),
+      type: draft.type,
+      ...(draft.defaultValue ? { defaultValue: draft.defaultValue } : {}),
+      properties: Object.fromEntries(
+        nextProperties
+          .filter(([key]) => key.trim())
+          .map(([key, value]) => [key.trim(), value])
+      ),
+      ...overrides,
+    };
+    if (JSON.stringify(next) !== JSON.stringify(field || EMPTY_FIELD)) {
+      onChange(next);
+    }
+  };
+
+  const updateProperty = (index: number, entry: [string, string]) => {
+    setProperties((prev) =>
+      prev.map((item, i) => (i === index ? entry : item))
+    );
+  };
+
+  const removeProperty = (index: number) => {
+    const nextProperties = properties.filter((_, i) => i !== index);
+    setProperties(nextProperties);
+    commitField({}, nextProperties);
+  };
+
+  return (
+    <div className='space-y-1 text-xs'>
+      <div className='font-medium text-sky-600'>Field</div>
+      <div className='grid grid-cols-2 gap-1'>
+        <input
+          value={draft.name}
+          placeholder={`${autoName} (auto)`}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          onBlur={() => commitField()}
+          className={`${inputClassName} ${
+            isDuplicateName ? 'border-red-500' : ''
+          }`}
+        />
+        <Select
+          value={draft.type}
+          onValueChange={(value: FieldType) => {
+            setDraft({ ...draft, type: value });
+            commitField({ type: value });
+          }}
+        >
+          <SelectTrigger className='h-7 text-xs'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FIELD_TYPE_LABELS) as FieldType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {FIELD_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <input
+        value={draft.defaultValue ?? ''}
+        placeholder={
+          draft.type === 'checkbox' ? 'Default (true / false)' : 'Default value'
+        }
+        onChange={(e) => setDraft({ ...draft, defaultValue: e.target.value })}
+        onBlur={() => commitField()}
+        className={inputClassName}
+      />
+      {properties.map(([key, value], index) => (
+        <div key={index} className='flex gap-1'>
+          <input
+            value={key}
+            placeholder='Key'
+            onChange={(e) => updateProperty(index, [e.target.value, value])}
+            onBlur={() => commitField()}
+            className={inputClassName}
+          />
+          <input
+            value={value}
+            placeholder='Value'
+            onChange={(e) => updateProperty(index, [key, e.target.value])}
+            onBlur={() => commitField()}
+            className={inputClassName}
+          />
+          <Button
+            variant='ghost'
+            size='icon'
+            className='h-7 w-7 shrink-0'
+            onClick={() => removeProperty(index)}
+          >
+            <X className='w-3 h-3' />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant='ghost'
+        size='sm'
+        className='h-7 px-2 text-xs'
+        onClick={() => setProperties((prev) => [...prev, ['', '']])}
+      >
+        <Plus className='w-3 h-3 mr-1' />
+        Property
+      </Button>
+      {isDuplicateName && (
+        <div className='text-red-500'>
+          同じフィールド名が他のボックスにも設定されています
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Square } from 'lucide-react';
+import type { OCRProgress } from '../utils/types';
+
+interface OCRProgressIndicatorProps {
+  progress: OCRProgress;
+  onCancel: () => void;
+}
+
+export const OCRProgressIndicator: React.FC<OCRProgressIndicatorProps> = ({
+  progress,
+  onCancel,
+}) => {
+  return (
+    <div className='space-y-2 text-xs text-muted-foreground'>
+      <div className='flex items-center justify-between'>
+        <span className='capitalize'>{progress.status}</span>
+        <span>{Math.round(progress.progress * 100)}%</span>
+      </div>
+      <div className='w-full bg-gray-200 rounded-full h-2'>
+        <div
+          className='bg-blue-600 h-2 rounded-full transition-all duration-300'
+          style={{ width: `${progress.progress * 100}%` }}
+        />
+      </div>
+      <Button
+        onClick={onCancel}
+        className='w-full'
+        size='sm'
+        variant='destructive'
+      >
+        <Square className='w-4 h-4 mr-2' />
+        Cancel OCR
+      </Button>
+    </div>
+  );
+};
@@ -9,33 +9,91 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Scan } from 'lucide-react';
-import type { OCRSettings } from '../utils/types';
+import type {
+  OCRLanguage,
+  OCRProgress,
+  OCRSettings,
+  OCRTextSource,
+  TesseractEngineMode,
+  TesseractPageSegMode,
+} from '../utils/types';
+import { OCR_LANGUAGE_LABELS } from '../utils/ocrUtils';
+import { OCRProgressIndicator } from './OCRProgressIndicator';
 
 interface OCRSettingsProps {
   settings: OCRSettings;
   onSettingsChange: (settings: Partial<OCRSettings>) => void;
   onPerformOCR: () => void;
   isProcessing: boolean;
+  progress: OCRProgress | null;
+  onCancel: () => void;
   isEnabled: boolean;
 }
 
+const PAGE_SEG_MODE_LABELS: Record<TesseractPageSegMode, string> = {
+  '1': 'Auto with OSD',
+  '3': 'Fully automatic',
+  '4': 'Single column',
+  '5': 'Single vertical block',
+  '6': 'Single block',
+  '7': 'Single line',
+  '8': 'Single word',
+  '9': 'Single word in circle',
+  '10': 'Single character',
+  '11': 'Sparse text',
+  '12': 'Sparse text with OSD',
+  '13': 'Raw line',
+};
+
+const ENGINE_MODE_LABELS: Record<TesseractEngineMode, string> = {
+  0: 'Legacy',
+  1: 'LSTM',
+  2: 'Legacy + LSTM',
+  3: 'Default',
+};
+
+const inputClassName =
+  'w-full h-8 rounded border border-border px-2 text-sm bg-background';
+
 export const OCRSettingsComponent: React.FC<OCRSettingsProps> = ({
   settings,
   onSettingsChange,
   onPerformOCR,
   isProcessing,
+  progress,
+  onCancel,
   isEnabled,
 }) => {
   return (
     <div className='space-y-3'>
       <Label>OCR Settings</Label>
       <div className='grid grid-cols-1 gap-3'>
+        <div>
+          <Label className='text-xs'>Text Source</Label>
+          <Select
+            value={settings.textSource}
+            onValueChange={(value: OCRTextSource) =>
+              onSettingsChange({ textSource: value })
+            }
+          >
+            <SelectTrigger className='h-8'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value='auto'>
+                Auto (PDF text, OCR fallback)
+              </SelectItem>
+              <SelectItem value='pdf'>PDF text only</SelectItem>
+              <SelectItem value='ocr'>OCR only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
         <div className='grid grid-cols-2 gap-2'>
           <div>
             <Label className='text-xs'>Language</Label>
             <Select
               value={settings.language}
-              onValueChange={(value: 'eng' | 'jpn' | 'eng+jpn') =>
+              onValueChange={(value: OCRLanguage) =>
                 onSettingsChange({ language: value })
               }
             >
@@ -43,9 +101,13 @@ export const OCRSettingsComponent: React.FC<OCRSettingsProps> = ({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value='eng'>English</SelectItem>
-                <SelectItem value='jpn'>Japanese</SelectItem>
-                <SelectItem value='eng+jpn'>English + Japanese</SelectItem>
+                {(Object.keys(OCR_LANGUAGE_LABELS) as OCRLanguage[]).map(
+                  (language) => (
+                    <SelectItem key={language} value={language}>
+                      {OCR_LANGUAGE_LABELS[language]}
+                    </SelectItem>
+                  )
+                )}
               </SelectContent>
             </Select>
           </div>
@@ -69,40 +131,136 @@ export const OCRSettingsComponent: React.FC<OCRSettingsProps> = ({
             </Select>
           </div>
         </div>
+        <div>
+          <Label className='text-xs'>
+            Min Confidence: {settings.minConfidence}%
+          </Label>
+          <input
+            type='range'
+            min={0}
+            max={100}
+            value={settings.minConfidence}
+            onChange={(e) =>
+              onSettingsChange({ minConfidence: Number(e.target.value) })
+            }
+            className='w-full'
+          />
+        </div>
         <div className='grid grid-cols-2 gap-2'>
           <div>
-            <Label className='text-xs'>
-              Min Confidence: {settings.minConfidence}%
-            </Label>
+            <Label className='text-xs'>Page Segmentation (PSM)</Label>
+            <Select
+              value={settings.pageSegMode}
+              onValueChange={(value: TesseractPageSegMode) =>
+                onSettingsChange({ pageSegMode: value })
+              }
+            >
+              <SelectTrigger className='h-8'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(PAGE_SEG_MODE_LABELS) as TesseractPageSegMode[]
+                ).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {mode}: {PAGE_SEG_MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className='text-xs'>Engine (OEM)</Label>
+            <Select
+              value={String(settings.engineMode)}
+              onValueChange={(value) =>
+                onSettingsChange({
+                  engineMode: Number(value) as TesseractEngineMode,
+                })
+              }
+            >
+              <SelectTrigger className='h-8'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {([0, 1, 2, 3] as TesseractEngineMode[]).map((mode) => (
+                  <SelectItem key={mode} value={String(mode)}>
+                    {mode}: {ENGINE_MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className='grid grid-cols-2 gap-2'>
+          <div>
+            <Label className='text-xs'>Character Whitelist</Label>
+            <input
+              value={settings.charWhitelist}
+              placeholder='e.g. 0123456789,-'
+              onChange={(e) =>
+                onSettingsChange({ charWhitelist: e.target.value })
+              }
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <Label className='text-xs'>Character Blacklist</Label>
+            <input
+              value={settings.charBlacklist}
+              onChange={(e) =>
+                onSettingsChange({ charBlacklist: e.target.value })
+              }
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div className='grid grid-cols-2 gap-2'>
+          <div>
+            <Label className='text-xs'>DPI Hint</Label>
             <input
-              type='range'
-              min={0}
-              max={100}
-              value={settings.minConfidence}
+              type='number'
+              min={70}
+              max={2400}
+              value={settings.userDpi}
               onChange={(e) =>
-                onSettingsChange({ minConfidence: Number(e.target.value) })
+                onSettingsChange({
+                  userDpi: Math.max(70, Number(e.target.value) || 300),
+                })
               }
-              className='w-full'
+              className={inputClassName}
             />
           </div>
           <div className='flex items-center space-x-2'>
             <input
               type='checkbox'
-              id='enhance-image'
-              checked={settings.enhanceImage}
+              id='preserve-interword-spaces'
+              checked={settings.preserveInterwordSpaces}
               onChange={(e) =>
-                onSettingsChange({ enhanceImage: e.target.checked })
+                onSettingsChange({ preserveInterwordSpaces: e.target.checked })
               }
               className='rounded'
             />
-            <Label htmlFor='enhance-image' className='text-xs'>
-              Enhance Image
+            <Label htmlFor='preserve-interword-spaces' className='text-xs'>
+              Preserve Spaces
             </Label>
           </div>
         </div>
       </div>
       <div className='text-xs text-muted-foreground'>
-        Enhance Image: コントラスト調整とノイズ除去でOCR精度を向上
+        Preprocessing: 画像の前処理は Image Preprocessing で設定します
+      </div>
+      <div className='text-xs text-muted-foreground'>
+        PSM / Whitelist: 数字だけの欄は Single line と 0-9
+        の許可文字を組み合わせると精度が上がります
+      </div>
+      <div className='text-xs text-muted-foreground'>
+        Japanese (vertical): 縦書きは PSM 5 (Single vertical block) または 3
+        を推奨。縦書きと判定した領域は右の列から読みます
+      </div>
+      <div className='text-xs text-muted-foreground'>
+        Auto:
+        PDFのテキストレイヤーを使用し、テキストのないページ・画像領域のみOCR
       </div>
 
       {/* OCR Button */}
@@ -115,6 +273,9 @@ export const OCRSettingsComponent: React.FC<OCRSettingsProps> = ({
         <Scan className='w-4 h-4 mr-2' />
         {isProcessing ? 'Processing OCR...' : 'Auto-detect Text'}
       </Button>
+      {progress && (
+        <OCRProgressIndicator progress={progress} onCancel={onCancel} />
+      )}
       <p className='text-xs text-muted-foreground'>
         Automatically create bounding boxes around detected text
       </p>
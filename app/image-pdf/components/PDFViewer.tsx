@@ -1,39 +1,84 @@
 import React, { RefObject } from 'react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { BoundingBox, Point } from '../utils/types';
-import { pdfPointsToDisplayCoords } from '../utils/coordinateConversion';
+import { Maximize, MoveHorizontal, ZoomIn, ZoomOut } from 'lucide-react';
+import type { BoundingBox, BoxEditHandle } from '../utils/types';
+import {
+  convertRectToUnits,
+  pdfPointsToImageFraction,
+} from '../utils/coordinateConversion';
+import { RESIZE_HANDLES } from '../utils/boxEditing';
+import { MAX_ZOOM, MIN_ZOOM, useViewerZoom } from '../hooks/useViewerZoom';
 
 interface PDFViewerProps {
   imageDataUrl: string | null;
   boundingBoxes: BoundingBox[];
-  selectedUnit: 'px' | 'mm' | 'pt';
   isDrawing: boolean;
   currentBox: BoundingBox | null;
+  selectedBoxId: string | null;
+  editingBox: BoundingBox | null;
   originalDimensions: { width: number; height: number } | null;
+  imageDpi: number;
   imageRef: RefObject<HTMLImageElement | null>;
   onMouseDown: (event: React.MouseEvent<HTMLDivElement>) => void;
   onMouseMove: (event: React.MouseEvent<HTMLDivElement>) => void;
   onMouseUp: (event: React.MouseEvent<HTMLDivElement>) => void;
+  onBoxEditStart: (
+    event: React.MouseEvent<HTMLDivElement>,
+    box: BoundingBox,
+    handle: BoxEditHandle
+  ) => void;
 }
 
+// リサイズハンドルの位置（ボックスに対する割合）とカーソル
+const HANDLE_POSITIONS: Record<
+  Exclude<BoxEditHandle, 'move'>,
+  { left: string; top: string; cursor: string }
+> = {
+  nw: { left: '0%', top: '0%', cursor: 'nwse-resize' },
+  n: { left: '50%', top: '0%', cursor: 'ns-resize' },
+  ne: { left: '100%', top: '0%', cursor: 'nesw-resize' },
+  e: { left: '100%', top: '50%', cursor: 'ew-resize' },
+  se: { left: '100%', top: '100%', cursor: 'nwse-resize' },
+  s: { left: '50%', top: '100%', cursor: 'ns-resize' },
+  sw: { left: '0%', top: '100%', cursor: 'nesw-resize' },
+  w: { left: '0%', top: '50%', cursor: 'ew-resize' },
+};
+
 export const PDFViewer: React.FC<PDFViewerProps> = ({
   imageDataUrl,
   boundingBoxes,
-  selectedUnit,
   isDrawing,
   currentBox,
+  selectedBoxId,
+  editingBox,
   originalDimensions,
+  imageDpi,
   imageRef,
   onMouseDown,
   onMouseMove,
   onMouseUp,
+  onBoxEditStart,
 }) => {
+  const {
+    viewportRef,
+    zoom,
+    fitMode,
+    displaySize,
+    isSpacePressed,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    zoomToActualSize,
+    fitWidth,
+    fitPage,
+    handlePanStart,
+  } = useViewerZoom(originalDimensions);
+
   // Convert bounding box coordinates to display coordinates
+  // 画像に対する割合（%）で配置するため、どの倍率でも画像と同じだけ拡大縮小される
   const convertBoxToDisplay = (box: BoundingBox) => {
-    if (!originalDimensions || !imageRef.current) {
-      console.log(
-        '[v0] PDFViewer convertBoxToDisplay: missing dimensions or image element'
-      );
+    if (!originalDimensions) {
       // Fallback: return box coordinates as-is if conversion not possible
       return {
         x: box.x,
@@ -43,62 +88,31 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
       };
     }
 
-    console.log('[v0] PDFViewer converting box:', box);
-
     // Convert to PDF points (native coordinate system)
-    let pdfX = box.x;
-    let pdfY = box.y;
-    let pdfWidth = box.width;
-    let pdfHeight = box.height;
-
     // All bounding boxes should now be stored in PDF points (pt) unit
     // For backward compatibility, handle different units if they exist
-    if (box.unit === 'px') {
-      // Convert pixels to points
-      pdfX = box.x * 0.75;
-      pdfY = box.y * 0.75;
-      pdfWidth = box.width * 0.75;
-      pdfHeight = box.height * 0.75;
-    } else if (box.unit === 'mm') {
-      // Convert millimeters to points
-      pdfX = box.x * 2.834645669;
-      pdfY = box.y * 2.834645669;
-      pdfWidth = box.width * 2.834645669;
-      pdfHeight = box.height * 2.834645669;
-    }
-    // If unit is 'pt', use as-is (this should be the normal case)
+    const {
+      x: pdfX,
+      y: pdfY,
+      width: pdfWidth,
+      height: pdfHeight,
+    } = convertRectToUnits(box, box.unit, 'pt');
 
-    console.log('[v0] PDFViewer PDF points:', {
-      pdfX,
-      pdfY,
-      pdfWidth,
-      pdfHeight,
-    });
-    console.log('[v0] PDFViewer originalDimensions:', originalDimensions);
-    console.log('[v0] PDFViewer image dimensions:', {
-      width: imageRef.current.clientWidth,
-      height: imageRef.current.clientHeight,
-    });
-
-    const displayCoords = pdfPointsToDisplayCoords(
+    const fraction = pdfPointsToImageFraction(
       pdfX,
       pdfY,
       pdfWidth,
       pdfHeight,
       originalDimensions,
-      imageRef.current
+      imageDpi
     );
 
-    console.log('[v0] PDFViewer final display coords:', displayCoords);
-
-    return (
-      displayCoords || {
-        x: pdfX,
-        y: pdfY,
-        width: pdfWidth,
-        height: pdfHeight,
-      }
-    );
+    return {
+      x: `${fraction.x * 100}%`,
+      y: `${fraction.y * 100}%`,
+      width: `${fraction.width * 100}%`,
+      height: `${fraction.height * 100}%`,
+    };
   };
 
   const getBoxStyle = (box: BoundingBox) => {
@@ -151,37 +165,112 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
 
   return (
     <Card className='lg:col-span-2'>
-      <CardHeader>
-        <CardTitle>PDF Image Viewer (300 DPI)</CardTitle>
+      <CardHeader className='flex flex-row items-center justify-between gap-2 space-y-0'>
+        <CardTitle>PDF Image Viewer ({imageDpi} DPI)</CardTitle>
+        {imageDataUrl && (
+          <div className='flex items-center gap-1'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={zoomOut}
+              disabled={zoom <= MIN_ZOOM}
+              title='Zoom out'
+            >
+              <ZoomOut className='w-4 h-4' />
+            </Button>
+            <span className='w-12 text-center text-sm tabular-nums'>
+              {Math.round(zoom * 100)}%
+            </span>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={zoomIn}
+              disabled={zoom >= MAX_ZOOM}
+              title='Zoom in'
+            >
+              <ZoomIn className='w-4 h-4' />
+            </Button>
+            <Button
+              variant={fitMode === 'width' ? 'default' : 'outline'}
+              size='sm'
+              onClick={fitWidth}
+              title='Fit width'
+            >
+              <MoveHorizontal className='w-4 h-4' />
+            </Button>
+            <Button
+              variant={fitMode === 'page' ? 'default' : 'outline'}
+              size='sm'
+              onClick={fitPage}
+              title='Fit page'
+            >
+              <Maximize className='w-4 h-4' />
+            </Button>
+            <Button
+              variant={!fitMode && zoom === 1 ? 'default' : 'outline'}
+              size='sm'
+              onClick={zoomToActualSize}
+              title='Actual pixels (1:1)'
+            >
+              1:1
+            </Button>
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         <div className='relative border border-border rounded-lg overflow-hidden bg-muted min-h-[600px]'>
           {imageDataUrl ? (
-            <div className='relative overflow-auto max-h-[600px]'>
+            // 中ボタンまたはスペースキー+ドラッグでパン、Ctrl+ホイールでズーム
+            <div
+              ref={viewportRef}
+              className='relative overflow-auto h-[600px]'
+              style={{ scrollbarGutter: 'stable' }}
+              onMouseDownCapture={handlePanStart}
+            >
               <div
-                className='relative cursor-crosshair'
+                className={`relative ${
+                  isPanning
+                    ? 'cursor-grabbing'
+                    : isSpacePressed
+                    ? 'cursor-grab'
+                    : 'cursor-crosshair'
+                }`}
+                style={
+                  displaySize
+                    ? { width: displaySize.width, height: displaySize.height }
+                    : undefined
+                }
                 onMouseDown={onMouseDown}
                 onMouseMove={onMouseMove}
                 onMouseUp={onMouseUp}
               >
+                {/* 表示サイズは整数pxのため clientWidth/clientHeight と一致し、描画座標の変換が正確になる */}
                 <img
                   ref={imageRef}
                   id='pdf-image'
                   src={imageDataUrl}
                   alt='PDF Page'
-                  className='block max-w-full h-auto'
+                  className='block w-full h-full'
                   draggable={false}
                 />
 
                 <div className='absolute inset-0 pointer-events-none'>
                   {/* Existing bounding boxes */}
                   {boundingBoxes.map((box, index) => {
-                    const displayCoords = convertBoxToDisplay(box);
+                    // 移動・リサイズ中は編集中の位置で表示
+                    const shownBox =
+                      editingBox && editingBox.id === box.id ? editingBox : box;
+                    const displayCoords = convertBoxToDisplay(shownBox);
+                    const isSelected = box.id === selectedBoxId;
 
                     return (
                       <div
                         key={box.id}
-                        className='absolute'
+                        className={`absolute ${
+                          isSelected
+                            ? 'pointer-events-auto cursor-move ring-2 ring-offset-1 ring-sky-500'
+                            : ''
+                        }`}
                         style={{
                           ...getBoxStyle(box),
                           left: displayCoords.x,
@@ -189,7 +278,23 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
                           width: displayCoords.width,
                           height: displayCoords.height,
                         }}
+                        onMouseDown={
+                          isSelected
+                            ? (event) => onBoxEditStart(event, box, 'move')
+                            : undefined
+                        }
                       >
+                        {isSelected &&
+                          RESIZE_HANDLES.map((handle) => (
+                            <div
+                              key={handle}
+                              className='absolute w-2 h-2 bg-white border border-sky-500 -translate-x-1/2 -translate-y-1/2'
+                              style={HANDLE_POSITIONS[handle]}
+                              onMouseDown={(event) =>
+                                onBoxEditStart(event, box, handle)
+                              }
+                            />
+                          ))}
                         <div
                           className='absolute -top-6 left-0 text-white text-xs px-1 rounded'
                           style={{
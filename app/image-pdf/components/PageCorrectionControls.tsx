@@ -0,0 +1,56 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import type { PageCorrectionSettings, PageTransform } from '../utils/types';
+
+interface PageCorrectionControlsProps {
+  settings: PageCorrectionSettings;
+  onSettingsChange: (settings: Partial<PageCorrectionSettings>) => void;
+  lastTransform: PageTransform | null;
+}
+
+export const PageCorrectionControls: React.FC<PageCorrectionControlsProps> = ({
+  settings,
+  onSettingsChange,
+  lastTransform,
+}) => {
+  return (
+    <div className='space-y-3'>
+      <Label>Page Correction</Label>
+      <div className='grid grid-cols-2 gap-2'>
+        <div className='flex items-center space-x-2'>
+          <input
+            type='checkbox'
+            id='auto-rotate'
+            checked={settings.autoRotate}
+            onChange={(e) => onSettingsChange({ autoRotate: e.target.checked })}
+            className='rounded'
+          />
+          <Label htmlFor='auto-rotate' className='text-xs'>
+            Auto-rotate (0/90/180/270)
+          </Label>
+        </div>
+        <div className='flex items-center space-x-2'>
+          <input
+            type='checkbox'
+            id='deskew'
+            checked={settings.deskew}
+            onChange={(e) => onSettingsChange({ deskew: e.target.checked })}
+            className='rounded'
+          />
+          <Label htmlFor='deskew' className='text-xs'>
+            Deskew
+          </Label>
+        </div>
+      </div>
+      {lastTransform && (
+        <div className='text-xs text-muted-foreground'>
+          Last applied: rotated {lastTransform.rotation}°, skew{' '}
+          {lastTransform.skewAngle.toFixed(2)}°
+        </div>
+      )}
+      <div className='text-xs text-muted-foreground'>
+        OCR・表検出の前にページの向きと傾きを補正します。検出したボックスは元のページの座標に戻して保存します
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, ChevronUp, Save, Trash2, X } from 'lucide-react';
+import type {
+  PreprocessingPreset,
+  PreprocessingStep,
+  PreprocessingStepType,
+} from '../utils/types';
+import { PREPROCESSING_STEP_DEFINITIONS } from '../utils/preprocessingPipeline';
+
+interface PreprocessingPanelProps {
+  steps: PreprocessingStep[];
+  presets: PreprocessingPreset[];
+  activePresetName: string | null;
+  beforeUrl: string | null;
+  previewUrl: string | null;
+  isPreviewing: boolean;
+  onAddStep: (type: PreprocessingStepType) => void;
+  onUpdateStep: (
+    stepId: string,
+    updates: Partial<Pick<PreprocessingStep, 'enabled' | 'params'>>
+  ) => void;
+  onRemoveStep: (stepId: string) => void;
+  onMoveStep: (stepId: string, direction: -1 | 1) => void;
+  onApplyPreset: (name: string) => void;
+  onSavePreset: (name: string) => boolean;
+  onDeletePreset: (name: string) => void;
+}
+
+const inputClassName =
+  'w-full h-8 rounded border border-border px-2 text-sm bg-background';
+
+export const PreprocessingPanel: React.FC<PreprocessingPanelProps> = ({
+  steps,
+  presets,
+  activePresetName,
+  beforeUrl,
+  previewUrl,
+  isPreviewing,
+  onAddStep,
+  onUpdateStep,
+  onRemoveStep,
+  onMoveStep,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const activePreset = presets.find(
+    (preset) => preset.name === activePresetName
+  );
+
+  const handleSavePreset = () => {
+    if (onSavePreset(presetName)) {
+      setPresetName('');
+    } else {
+      alert(
+        'プリセット名を入力してください（組み込みのプリセット名は使えません）'
+      );
+    }
+  };
+
+  return (
+    <div className='space-y-3'>
+      <Label>Image Preprocessing</Label>
+
+      {/* Presets */}
+      <div className='flex gap-2 items-end'>
+        <div className='flex-1'>
+          <Label className='text-xs'>Preset</Label>
+          <Select value={activePresetName ?? ''} onValueChange={onApplyPreset}>
+            <SelectTrigger className='h-8'>
+              <SelectValue placeholder='Custom' />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.name} value={preset.name}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {activePreset && !activePreset.builtIn && (
+          <Button
+            size='sm'
+            variant='outline'
+            className='h-8 px-2'
+            onClick={() => onDeletePreset(activePreset.name)}
+            title='Delete preset'
+          >
+            <Trash2 className='w-3 h-3' />
+          </Button>
+        )}
+      </div>
+
+      {/* Steps */}
+      <div className='space-y-2'>
+        {steps.map((step, index) => {
+          const definition = PREPROCESSING_STEP_DEFINITIONS[step.type];
+          return (
+            <div
+              key={step.id}
+              className='p-2 border border-border rounded text-xs space-y-2'
+            >
+              <div className='flex items-center gap-1'>
+                <input
+                  type='checkbox'
+                  id={`step-${step.id}`}
+                  checked={step.enabled}
+                  onChange={(e) =>
+                    onUpdateStep(step.id, { enabled: e.target.checked })
+                  }
+                  className='rounded'
+                />
+                <Label
+                  htmlFor={`step-${step.id}`}
+                  className='text-xs flex-1 ml-1'
+                >
+                  {index + 1}. {definition.label}
+                </Label>
+                <Button
+                  size='sm'
+                  variant='ghost'
+                  className='h-6 w-6 p-0'
+                  onClick={() => onMoveStep(step.id, -1)}
+                  disabled={index === 0}
+                  title='Move up'
+                >
+                  <ChevronUp className='w-3 h-3' />
+                </Button>
+                <Button
+                  size='sm'
+                  variant='ghost'
+                  className='h-6 w-6 p-0'
+                  onClick={() => onMoveStep(step.id, 1)}
+                  disabled={index === steps.length - 1}
+                  title='Move down'
+                >
+                  <ChevronDown className='w-3 h-3' />
+                </Button>
+                <Button
+                  size='sm'
+                  variant='ghost'
+                  className='h-6 w-6 p-0'
+                  onClick={() => onRemoveStep(step.id)}
+                  title='Remove step'
+                >
+                  <X className='w-3 h-3' />
+                </Button>
+              </div>
+              {definition.params.length > 0 && (
+                <div className='grid grid-cols-2 gap-2'>
+                  {definition.params.map((param) => (
+                    <div key={param.key}>
+                      <Label className='text-xs'>{param.label}</Label>
+                      <input
+                        type='number'
+                        min={param.min}
+                        max={param.max}
+                        step={param.step}
+                        value={step.params[param.key] ?? param.defaultValue}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (Number.isNaN(value)) return;
+                          onUpdateStep(step.id, {
+                            params: {
+                              [param.key]: Math.min(
+                                param.max,
+                                Math.max(param.min, value)
+                              ),
+                            },
+                          });
+                        }}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {steps.length === 0 && (
+          <div className='text-xs text-muted-foreground'>
+            No preprocessing. The page image is used as is.
+          </div>
+        )}
+      </div>
+
+      {/* Add step */}
+      <Select
+        value=''
+        onValueChange={(value: PreprocessingStepType) => onAddStep(value)}
+      >
+        <SelectTrigger className='h-8'>
+          <SelectValue placeholder='Add step...' />
+        </SelectTrigger>
+        <SelectContent>
+          {(
+            Object.keys(
+              PREPROCESSING_STEP_DEFINITIONS
+            ) as PreprocessingStepType[]
+          ).map((type) => (
+            <SelectItem key={type} value={type}>
+              {PREPROCESSING_STEP_DEFINITIONS[type].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Save preset */}
+      <div className='flex gap-2'>
+        <input
+          value={presetName}
+          placeholder='Preset name'
+          onChange={(e) => setPresetName(e.target.value)}
+          className={inputClassName}
+        />
+        <Button
+          size='sm'
+          variant='outline'
+          className='h-8'
+          onClick={handleSavePreset}
+        >
+          <Save className='w-3 h-3 mr-1' />
+          Save
+        </Button>
+      </div>
+
+      {/* Before / After preview */}
+      {beforeUrl && (
+        <div className='grid grid-cols-2 gap-2'>
+          <div>
+            <div className='text-xs text-muted-foreground mb-1'>Before</div>
+            <img
+              src={beforeUrl}
+              alt='Before preprocessing'
+              className='w-full border border-border rounded'
+            />
+          </div>
+          <div>
+            <div className='text-xs text-muted-foreground mb-1'>
+              After{isPreviewing && ' (updating...)'}
+            </div>
+            {previewUrl && (
+              <img
+                src={previewUrl}
+                alt='After preprocessing'
+                className='w-full border border-border rounded'
+              />
+            )}
+          </div>
+        </div>
+      )}
+      <div className='text-xs text-muted-foreground'>
+        上から順に適用し、OCRと表検出の両方で使用します
+      </div>
+    </div>
+  );
+};
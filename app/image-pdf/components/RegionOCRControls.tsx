@@ -0,0 +1,106 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ScanText } from 'lucide-react';
+import type {
+  OCRLanguage,
+  OCRLevel,
+  OCRProgress,
+  RegionOCRSettings,
+} from '../utils/types';
+import { OCR_LANGUAGE_LABELS } from '../utils/ocrUtils';
+import { OCRProgressIndicator } from './OCRProgressIndicator';
+
+interface RegionOCRControlsProps {
+  settings: RegionOCRSettings;
+  onSettingsChange: (settings: Partial<RegionOCRSettings>) => void;
+  onPerformRegionOCR: () => void;
+  isProcessing: boolean;
+  progress: OCRProgress | null;
+  onCancel: () => void;
+  hasSelection: boolean;
+}
+
+export const RegionOCRControls: React.FC<RegionOCRControlsProps> = ({
+  settings,
+  onSettingsChange,
+  onPerformRegionOCR,
+  isProcessing,
+  progress,
+  onCancel,
+  hasSelection,
+}) => {
+  return (
+    <div className='space-y-3'>
+      <Label>Region OCR</Label>
+      <div className='grid grid-cols-2 gap-2'>
+        <div>
+          <Label className='text-xs'>Language</Label>
+          <Select
+            value={settings.language}
+            onValueChange={(value: OCRLanguage) =>
+              onSettingsChange({ language: value })
+            }
+          >
+            <SelectTrigger className='h-8'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OCR_LANGUAGE_LABELS) as OCRLanguage[]).map(
+                (language) => (
+                  <SelectItem key={language} value={language}>
+                    {OCR_LANGUAGE_LABELS[language]}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className='text-xs'>Detection Level</Label>
+          <Select
+            value={settings.level}
+            onValueChange={(value: OCRLevel) =>
+              onSettingsChange({ level: value })
+            }
+          >
+            <SelectTrigger className='h-8'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value='word'>Word</SelectItem>
+              <SelectItem value='line'>Line</SelectItem>
+              <SelectItem value='paragraph'>Paragraph</SelectItem>
+              <SelectItem value='block'>Block</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <Button
+        onClick={onPerformRegionOCR}
+        disabled={!hasSelection || isProcessing}
+        className='w-full'
+        size='sm'
+        variant='outline'
+      >
+        <ScanText className='w-4 h-4 mr-2' />
+        {isProcessing ? 'Processing...' : 'OCR This Box'}
+      </Button>
+      {progress && (
+        <OCRProgressIndicator progress={progress} onCancel={onCancel} />
+      )}
+      {!hasSelection && (
+        <p className='text-xs text-muted-foreground'>
+          ボックスを選択すると、その範囲だけを認識できます
+        </p>
+      )}
+    </div>
+  );
+};
@@ -14,22 +14,26 @@ interface TableDetectionControlsProps {
   mode: TableDetectionMode;
   onModeChange: (mode: TableDetectionMode) => void;
   onDetectTables: () => void;
+  hasOCRText: boolean;
   isProcessing: boolean;
   isEnabled: boolean;
   cvLoaded: boolean;
   cvError: string | null;
   cvLoadingProgress: number;
+  detectionError: string | null;
 }
 
 export const TableDetectionControls: React.FC<TableDetectionControlsProps> = ({
   mode,
   onModeChange,
   onDetectTables,
+  hasOCRText,
   isProcessing,
   isEnabled,
   cvLoaded,
   cvError,
   cvLoadingProgress,
+  detectionError,
 }) => {
   return (
     <div className='space-y-2'>
@@ -45,12 +49,15 @@ export const TableDetectionControls: React.FC<TableDetectionControlsProps> = ({
           <SelectItem value='table'>Table Regions</SelectItem>
           <SelectItem value='lines'>Lines (Rows/Columns)</SelectItem>
           <SelectItem value='cells'>Individual Cells</SelectItem>
+          <SelectItem value='borderless'>Borderless (from OCR)</SelectItem>
         </SelectContent>
       </Select>
 
       <Button
         onClick={onDetectTables}
-        disabled={isProcessing || !isEnabled}
+        disabled={
+          isProcessing || !isEnabled || (mode === 'borderless' && !hasOCRText)
+        }
         className='w-full'
         variant='outline'
       >
@@ -63,6 +70,7 @@ export const TableDetectionControls: React.FC<TableDetectionControlsProps> = ({
         {cvLoaded
           ? mode === 'cells' && 'Detect Table Cells'
           : mode === 'cells' && 'Detect Cells (Fallback)'}
+        {mode === 'borderless' && 'Detect Borderless Tables'}
         {isProcessing ? ' (Processing...)' : ''}
       </Button>
 
@@ -71,8 +79,18 @@ export const TableDetectionControls: React.FC<TableDetectionControlsProps> = ({
           {mode === 'table' && 'Detect whole table regions'}
           {mode === 'lines' && 'Detect individual row/column lines'}
           {mode === 'cells' && 'Detect individual table cells'}
-          {' using OpenCV'}
+          {mode === 'borderless'
+            ? 'Infer rows and columns from OCR word alignment'
+            : ' using OpenCV'}
         </div>
+        {mode === 'borderless' && !hasOCRText && (
+          <div className='text-xs text-yellow-600'>
+            罫線のない表の検出にはOCR結果が必要です。先にOCRを実行してください。
+          </div>
+        )}
+        {detectionError && (
+          <div className='text-red-500'>表検出エラー: {detectionError}</div>
+        )}
         <div className='flex items-center gap-2'>
           <div
             className={`w-2 h-2 rounded-full ${
@@ -87,7 +105,7 @@ export const TableDetectionControls: React.FC<TableDetectionControlsProps> = ({
             {cvLoaded
               ? 'OpenCV Ready'
               : cvError
-              ? 'OpenCV Error - Check Console'
+              ? 'OpenCV Error'
               : `Loading OpenCV... ${cvLoadingProgress.toFixed(0)}%`}
           </span>
         </div>
@@ -108,8 +126,8 @@ export const TableDetectionControls: React.FC<TableDetectionControlsProps> = ({
           <div className='text-red-500 space-y-1'>
             <div>エラー: {cvError}</div>
             <div className='text-xs'>
-              解決策:
-              ページをリロードするか、ネットワーク接続を確認してください。
+              解決策: npm install を実行して public/vendor
+              にOpenCV.jsを配置し、ページをリロードしてください。
             </div>
           </div>
         )}
@@ -2,14 +2,23 @@ import React, { useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Upload } from 'lucide-react';
 import type { PDFDocumentInfo } from '../utils/types';
+import { RENDER_DPI_OPTIONS } from '../utils/coordinateConversion';
 
 interface UploadSectionProps {
   pdfInfo: PDFDocumentInfo;
   onFileDrop: (event: React.DragEvent) => void;
   onFileInput: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onPageChange: (pageNum: number) => void;
+  onRenderDpiChange: (dpi: number) => void;
 }
 
 export const UploadSection: React.FC<UploadSectionProps> = ({
@@ -17,6 +26,7 @@ export const UploadSection: React.FC<UploadSectionProps> = ({
   onFileDrop,
   onFileInput,
   onPageChange,
+  onRenderDpiChange,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -85,15 +95,29 @@ export const UploadSection: React.FC<UploadSectionProps> = ({
           </div>
         )}
 
-        {/* Resolution Info */}
-        {pdfInfo.isLoaded && (
-          <div className='space-y-2'>
-            <Label className='text-emerald-600'>Resolution: 300 DPI</Label>
-            <p className='text-xs text-muted-foreground'>
-              High-resolution image for precise measurements
-            </p>
-          </div>
-        )}
+        {/* Resolution */}
+        <div className='space-y-2'>
+          <Label htmlFor='render-dpi-select'>Resolution</Label>
+          <Select
+            value={String(pdfInfo.renderDpi)}
+            onValueChange={(value) => onRenderDpiChange(Number(value))}
+          >
+            <SelectTrigger id='render-dpi-select'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RENDER_DPI_OPTIONS.map((dpi) => (
+                <SelectItem key={dpi} value={String(dpi)}>
+                  {dpi} DPI
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className='text-xs text-muted-foreground'>
+            低い解像度はプレビューが速く、高い解像度は小さな文字のOCRに向きます。座標はどの解像度でもpt
+            / mmで保存されます
+          </p>
+        </div>
       </CardContent>
     </Card>
   );
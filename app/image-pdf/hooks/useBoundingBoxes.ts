@@ -1,79 +1,346 @@
-import { useState, useCallback } from 'react';
-import type { BoundingBox, BoundingBoxKind } from '../utils/types';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type {
+  BoundingBox,
+  BoundingBoxKind,
+  TableStructure,
+} from '../utils/types';
+import { convertRectToUnits } from '../utils/coordinateConversion';
 
-export const useBoundingBoxes = () => {
-  const [boundingBoxes, setBoundingBoxes] = useState<BoundingBox[]>([]);
+// 履歴に記録する境界ボックスと表構造の状態
+interface BoundingBoxState {
+  // ページ番号ごとの境界ボックス
+  boxesByPage: Record<number, BoundingBox[]>;
+  // ページ番号ごとの表構造（セルはtableCellでボックスと対応）
+  tablesByPage: Record<number, TableStructure[]>;
+}
+
+interface BoundingBoxHistory {
+  past: BoundingBoxState[];
+  present: BoundingBoxState;
+  future: BoundingBoxState[];
+}
+
+const EMPTY_STATE: BoundingBoxState = { boxesByPage: {}, tablesByPage: {} };
+
+const isSameList = <T>(a: T[], b: T[]): boolean =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+export const useBoundingBoxes = (
+  currentPage: number,
+  maxHistory: number = 100
+) => {
+  const [history, setHistory] = useState<BoundingBoxHistory>({
+    past: [],
+    present: EMPTY_STATE,
+    future: [],
+  });
+  const { boxesByPage, tablesByPage } = history.present;
+
+  // コールバックを安定させるため現在のページはrefで参照する
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+
+  // 状態を更新して変更前の状態を履歴に積む（変更がなければ何もしない）
+  const commit = useCallback(
+    (updater: (state: BoundingBoxState) => BoundingBoxState) => {
+      setHistory((prev) => {
+        const next = updater(prev.present);
+        if (next === prev.present) return prev;
+        return {
+          past: [...prev.past, prev.present].slice(-maxHistory),
+          present: next,
+          future: [],
+        };
+      });
+    },
+    [maxHistory]
+  );
+
+  // 指定ページ（省略時は現在のページ）のボックスと表構造を1回の操作として更新
+  const updatePage = useCallback(
+    (
+      updateBoxes: (boxes: BoundingBox[]) => BoundingBox[],
+      updateTables: (tables: TableStructure[]) => TableStructure[] = (tables) =>
+        tables,
+      page: number = currentPageRef.current
+    ) => {
+      commit((state) => {
+        const boxes = state.boxesByPage[page] || [];
+        const tables = state.tablesByPage[page] || [];
+        const nextBoxes = updateBoxes(boxes);
+        const nextTables = updateTables(tables);
+        if (isSameList(boxes, nextBoxes) && isSameList(tables, nextTables)) {
+          return state;
+        }
+        return {
+          boxesByPage: { ...state.boxesByPage, [page]: nextBoxes },
+          tablesByPage: { ...state.tablesByPage, [page]: nextTables },
+        };
+      });
+    },
+    [commit]
+  );
+
+  // 現在のページの境界ボックス
+  const boundingBoxes = useMemo(
+    () => boxesByPage[currentPage] || [],
+    [boxesByPage, currentPage]
+  );
+
+  // 現在のページの表構造
+  const tables = useMemo(
+    () => tablesByPage[currentPage] || [],
+    [tablesByPage, currentPage]
+  );
+
+  // 全ページの境界ボックス（ページ順）
+  const allBoundingBoxes = useMemo(
+    () =>
+      Object.keys(boxesByPage)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .flatMap((page) => boxesByPage[page]),
+    [boxesByPage]
+  );
 
   // 境界ボックスを追加
-  const addBoundingBox = useCallback((box: BoundingBox) => {
-    setBoundingBoxes(prev => [...prev, box]);
-  }, []);
+  const addBoundingBox = useCallback(
+    (box: BoundingBox, page: number = currentPageRef.current) => {
+      updatePage((prev) => [...prev, { ...box, page }], undefined, page);
+    },
+    [updatePage]
+  );
 
   // 境界ボックスを追加（複数）
-  const addBoundingBoxes = useCallback((boxes: BoundingBox[]) => {
-    setBoundingBoxes(prev => [...prev, ...boxes]);
-  }, []);
+  const addBoundingBoxes = useCallback(
+    (boxes: BoundingBox[], page: number = currentPageRef.current) => {
+      if (boxes.length === 0) return;
+      updatePage(
+        (prev) => [...prev, ...boxes.map((box) => ({ ...box, page }))],
+        undefined,
+        page
+      );
+    },
+    [updatePage]
+  );
 
-  // 境界ボックスを削除
-  const removeBoundingBox = useCallback((id: string) => {
-    setBoundingBoxes(prev => prev.filter(box => box.id !== id));
-  }, []);
+  // ページの表構造とそのセル・領域のボックスを置き換え
+  const replaceTables = useCallback(
+    (
+      newTables: TableStructure[],
+      boxes: BoundingBox[],
+      page: number = currentPageRef.current
+    ) => {
+      updatePage(
+        (prev) => [
+          ...prev.filter((box) => box.kind !== 'table'),
+          ...boxes.map((box) => ({ ...box, page })),
+        ],
+        () => newTables.map((table) => ({ ...table, page })),
+        page
+      );
+    },
+    [updatePage]
+  );
+
+  // 境界ボックスを削除（表セルの場合は表構造からも除く）
+  const removeBoundingBox = useCallback(
+    (id: string, page: number = currentPageRef.current) => {
+      updatePage(
+        (prev) => prev.filter((box) => box.id !== id),
+        (prev) =>
+          prev.some((table) => table.cells.some((cell) => cell.boxId === id))
+            ? prev
+                .map((table) => ({
+                  ...table,
+                  cells: table.cells.filter((cell) => cell.boxId !== id),
+                }))
+                .filter((table) => table.cells.length > 0)
+            : prev,
+        page
+      );
+    },
+    [updatePage]
+  );
 
   // 特定の種類の境界ボックスを削除
-  const removeBoundingBoxesByKind = useCallback((kind: BoundingBoxKind) => {
-    setBoundingBoxes(prev => prev.filter(box => box.kind !== kind));
-  }, []);
+  const removeBoundingBoxesByKind = useCallback(
+    (kind: BoundingBoxKind, page: number = currentPageRef.current) => {
+      updatePage(
+        (prev) => prev.filter((box) => box.kind !== kind),
+        (prev) => (kind === 'table' ? [] : prev),
+        page
+      );
+    },
+    [updatePage]
+  );
+
+  // 特定の種類の境界ボックスを置き換え
+  const replaceBoundingBoxesByKind = useCallback(
+    (
+      kind: BoundingBoxKind,
+      boxes: BoundingBox[],
+      page: number = currentPageRef.current
+    ) => {
+      updatePage(
+        (prev) => [
+          ...prev.filter((box) => box.kind !== kind),
+          ...boxes.map((box) => ({ ...box, page })),
+        ],
+        undefined,
+        page
+      );
+    },
+    [updatePage]
+  );
+
+  // ページの境界ボックスをクリア
+  const clearBoundingBoxes = useCallback(
+    (page: number = currentPageRef.current) => {
+      updatePage(
+        () => [],
+        () => [],
+        page
+      );
+    },
+    [updatePage]
+  );
+
+  // 全ページの境界ボックスをクリア
+  const clearAllBoundingBoxes = useCallback(() => {
+    commit((state) =>
+      Object.keys(state.boxesByPage).length === 0 &&
+      Object.keys(state.tablesByPage).length === 0
+        ? state
+        : EMPTY_STATE
+    );
+  }, [commit]);
 
-  // 全ての境界ボックスをクリア
-  const clearBoundingBoxes = useCallback(() => {
-    setBoundingBoxes([]);
+  // 境界ボックスと履歴を初期化（新しいPDFの読み込み時）
+  const resetBoundingBoxes = useCallback(() => {
+    setHistory({ past: [], present: EMPTY_STATE, future: [] });
   }, []);
 
   // 境界ボックスを更新
-  const updateBoundingBox = useCallback((id: string, updates: Partial<BoundingBox>) => {
-    setBoundingBoxes(prev =>
-      prev.map(box =>
-        box.id === id ? { ...box, ...updates } : box
-      )
-    );
+  const updateBoundingBox = useCallback(
+    (
+      id: string,
+      updates: Partial<BoundingBox>,
+      page: number = currentPageRef.current
+    ) => {
+      // ボックスの更新後に表構造を更新するので、更新後のボックスを参照できる
+      let updatedBox: BoundingBox | null = null;
+      updatePage(
+        (prev) =>
+          prev.map((box) => {
+            if (box.id !== id) return box;
+            updatedBox = { ...box, ...updates };
+            return updatedBox;
+          }),
+        // 表セルのボックスを移動・リサイズしたら、対応するセルの矩形（pt）も合わせる
+        (prev) => {
+          const box: BoundingBox | null = updatedBox;
+          if (!box?.tableCell) return prev;
+          const rect = convertRectToUnits(box, box.unit, 'pt');
+          return prev.map((table) =>
+            table.cells.some((cell) => cell.boxId === id)
+              ? {
+                  ...table,
+                  cells: table.cells.map((cell) =>
+                    cell.boxId === id ? { ...cell, ...rect } : cell
+                  ),
+                }
+              : table
+          );
+        },
+        page
+      );
+    },
+    [updatePage]
+  );
+
+  // 直前の操作を取り消す
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  // 取り消した操作をやり直す
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
   }, []);
 
   // 特定の境界ボックスを取得
-  const getBoundingBox = useCallback((id: string) => {
-    return boundingBoxes.find(box => box.id === id);
-  }, [boundingBoxes]);
+  const getBoundingBox = useCallback(
+    (id: string) => {
+      return allBoundingBoxes.find((box) => box.id === id);
+    },
+    [allBoundingBoxes]
+  );
 
   // 特定の種類の境界ボックスを取得
-  const getBoundingBoxesByKind = useCallback((kind: BoundingBoxKind) => {
-    return boundingBoxes.filter(box => box.kind === kind);
-  }, [boundingBoxes]);
+  const getBoundingBoxesByKind = useCallback(
+    (kind: BoundingBoxKind, page: number = currentPage) => {
+      return (boxesByPage[page] || []).filter((box) => box.kind === kind);
+    },
+    [boxesByPage, currentPage]
+  );
 
   // 境界ボックスの統計を取得
-  const getBoundingBoxesStats = useCallback(() => {
-    const total = boundingBoxes.length;
-    const byKind = boundingBoxes.reduce((acc, box) => {
-      const kind = box.kind || 'manual';
-      acc[kind] = (acc[kind] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return {
-      total,
-      byKind,
-      hasOCR: byKind.ocr > 0,
-      hasTable: byKind.table > 0,
-      hasManual: byKind.manual > 0,
-    };
-  }, [boundingBoxes]);
+  const getBoundingBoxesStats = useCallback(
+    (page: number = currentPage) => {
+      const pageBoxes = boxesByPage[page] || [];
+      const total = pageBoxes.length;
+      const byKind = pageBoxes.reduce((acc, box) => {
+        const kind = box.kind || 'manual';
+        acc[kind] = (acc[kind] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
+      return {
+        total,
+        documentTotal: allBoundingBoxes.length,
+        byKind,
+        hasOCR: byKind.ocr > 0,
+        hasTable: byKind.table > 0,
+        hasManual: byKind.manual > 0,
+      };
+    },
+    [boxesByPage, allBoundingBoxes, currentPage]
+  );
 
   return {
     boundingBoxes,
+    allBoundingBoxes,
+    tables,
+    tablesByPage,
     addBoundingBox,
     addBoundingBoxes,
+    replaceTables,
     removeBoundingBox,
     removeBoundingBoxesByKind,
+    replaceBoundingBoxesByKind,
     clearBoundingBoxes,
+    clearAllBoundingBoxes,
+    resetBoundingBoxes,
     updateBoundingBox,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
     getBoundingBox,
     getBoundingBoxesByKind,
     getBoundingBoxesStats,
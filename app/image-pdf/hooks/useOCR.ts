@@ -1,14 +1,52 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { OCRSettings, OCRTextData, BoundingBox } from '../utils/types';
-import { preprocessImageWithOpenCV } from '../utils/imagePreprocessing';
+import { useState, useCallback, useRef } from 'react';
+import type {
+  OCRLanguage,
+  OCRLevel,
+  OCRSettings,
+  OCRTextData,
+  PageCorrectionSettings,
+  PageRotation,
+  PageTransform,
+  RegionOCRSettings,
+  BoundingBox,
+  BatchOCRProgress,
+  RenderedPageImage,
+  PDFDocumentInfo,
+  Unit,
+} from '../utils/types';
+import { maskImageRegions, cropImageRegion } from '../utils/imagePreprocessing';
 import {
   processOCRResult,
   getOCRDataByLevel,
   filterOCRResultsByConfidence,
+  mergeOCRResults,
+  offsetOCRResult,
+  mapOCRResult,
+  replaceOCRRegion,
+  rescaleOCRResult,
+  toTesseractParameters,
 } from '../utils/ocrUtils';
+import { extractPDFTextData, pageHasImages } from '../utils/pdfTextExtraction';
+import {
+  getDpiScale,
+  imageCoordsToPDFPoints as convertImageCoordsToPDFPoints,
+} from '../utils/coordinateConversion';
+import {
+  correctPageImage as applyPageCorrection,
+  mapRectToSource,
+} from '../utils/pageCorrection';
+import {
+  OCR_CANCELLED_MESSAGE,
+  useTesseractWorker,
+} from './useTesseractWorker';
+
+// これ未満の信頼度の向き検出結果では回転しない（誤った回転を避ける）
+const MIN_ORIENTATION_CONFIDENCE = 10;
 
 export const useOCR = (
   imageDataUrl: string | null,
+  currentPage: number,
+  pdfDocument: PDFDocumentInfo['document'],
   convertDisplayToPDF: (
     x: number,
     y: number,
@@ -20,81 +58,454 @@ export const useOCR = (
     y: number,
     width: number,
     height: number
-  ) => any
+  ) => any,
+  // 前処理パイプライン（usePreprocessing）
+  preprocessImage: (imageUrl: string) => Promise<string>,
+  // 表示中のページ画像の解像度（PDFDocumentInfo.imageDpi）
+  imageDpi: number
 ) => {
   const [settings, setSettings] = useState<OCRSettings>({
     language: 'eng',
     level: 'word',
     minConfidence: 60,
-    enhanceImage: true,
+    textSource: 'auto',
+    // Tesseract.jsの既定値（単一ブロック・LSTM）
+    pageSegMode: '6',
+    engineMode: 1,
+    charWhitelist: '',
+    charBlacklist: '',
+    preserveInterwordSpaces: false,
+    userDpi: 300,
+  });
+
+  const [regionSettings, setRegionSettings] = useState<RegionOCRSettings>({
+    language: 'eng',
+    level: 'word',
   });
 
-  const [textData, setTextData] = useState<OCRTextData | null>(null);
+  const [correctionSettings, setCorrectionSettings] =
+    useState<PageCorrectionSettings>({
+      autoRotate: true,
+      deskew: true,
+    });
+  // 直近に適用したページ補正
+  const [lastTransform, setLastTransform] = useState<PageTransform | null>(
+    null
+  );
+
+  // ページ番号ごとのOCR結果
+  const [textDataByPage, setTextDataByPage] = useState<
+    Record<number, OCRTextData>
+  >({});
   const [isProcessing, setIsProcessing] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchOCRProgress | null>(
+    null
+  );
+  const batchCancelledRef = useRef(false);
+  const {
+    recognize,
+    detectOrientation,
+    cancel: cancelRecognition,
+    progress,
+    error: engineError,
+  } = useTesseractWorker();
 
-  // OCRを実行
-  const performOCR = useCallback(async () => {
-    if (!imageDataUrl || !window.Tesseract) {
-      console.error('[v0] OCR not available - missing image or Tesseract');
-      return;
-    }
+  const textData = textDataByPage[currentPage] || null;
 
-    setIsProcessing(true);
-    console.log('[v0] Starting OCR processing with enhanced settings...');
+  // ページ画像の向きと傾きを補正（OCR・表検出の前に行う）
+  const correctPageImage = useCallback(
+    async (
+      imageUrl: string
+    ): Promise<{ imageUrl: string; transform: PageTransform }> => {
+      let rotation: PageRotation = 0;
+      if (correctionSettings.autoRotate) {
+        try {
+          const orientation = await detectOrientation(imageUrl);
+          console.log('[v0] Detected page orientation:', orientation);
+          if (orientation.confidence >= MIN_ORIENTATION_CONFIDENCE) {
+            rotation = orientation.rotation;
+          }
+        } catch (error: unknown) {
+          if (
+            error instanceof Error &&
+            error.message === OCR_CANCELLED_MESSAGE
+          ) {
+            throw error;
+          }
+          console.warn('[v0] Orientation detection failed:', error);
+        }
+      }
 
-    try {
-      // 画像前処理
-      console.log('[v0] Preprocessing image for OCR...');
-      const processedImageUrl = await preprocessImageWithOpenCV(
-        imageDataUrl,
-        settings.enhanceImage
+      const corrected = await applyPageCorrection(
+        imageUrl,
+        rotation,
+        correctionSettings.deskew
       );
+      setLastTransform(corrected.transform);
+      return corrected;
+    },
+    [correctionSettings, detectOrientation]
+  );
 
-      // OCR実行
-      const result = await window.Tesseract.recognize(
+  // 画像1枚に対して補正・前処理とOCRを実行
+  // dpi は画像を描画した解像度。correctPage: false ではページ補正（向き検出・傾き補正）を行わない
+  const recognizeImage = useCallback(
+    async (
+      sourceImageUrl: string,
+      onProgress?: (progress: number) => void,
+      language: OCRLanguage = settings.language,
+      dpi: number = imageDpi,
+      toPDFCoords: typeof imageCoordsToPDFPoints = (x, y, width, height) =>
+        convertImageCoordsToPDFPoints(x, y, width, height, dpi),
+      correctPage: boolean = true
+    ): Promise<OCRTextData> => {
+      const { imageUrl: correctedImageUrl, transform } = correctPage
+        ? await correctPageImage(sourceImageUrl)
+        : { imageUrl: sourceImageUrl, transform: null };
+
+      // 画像前処理
+      const processedImageUrl = await preprocessImage(correctedImageUrl);
+
+      // OCR実行（言語セット・エンジンモードごとのワーカーを再利用）
+      const result = await recognize(
         processedImageUrl,
-        settings.language,
         {
-          logger: (m: any) => {
-            if (m.status === 'recognizing text') {
-              console.log(
-                `[v0] OCR Progress: ${Math.round(m.progress * 100)}%`
-              );
-            }
-          },
+          language,
+          oem: settings.engineMode,
+          parameters: toTesseractParameters(settings),
+        },
+        onProgress
+      );
+
+      // 補正画像の座標を元画像の座標に戻してからptに変換
+      const toSourceRect = (
+        x: number,
+        y: number,
+        width: number,
+        height: number
+      ) => {
+        const rect = { x0: x, y0: y, x1: x + width, y1: y + height };
+        return transform ? mapRectToSource(transform, rect) : rect;
+      };
+      const correctedData = processOCRResult(
+        result.data,
+        (x, y, width, height) => {
+          const rect = toSourceRect(x, y, width, height);
+          return toPDFCoords(
+            rect.x0,
+            rect.y0,
+            rect.x1 - rect.x0,
+            rect.y1 - rect.y0
+          );
         }
       );
+      return {
+        ...(transform
+          ? mapOCRResult(correctedData, (rect) =>
+              mapRectToSource(transform, rect)
+            )
+          : correctedData),
+        dpi,
+        ...(transform ? { transform } : {}),
+      };
+    },
+    [settings, imageDpi, recognize, correctPageImage, preprocessImage]
+  );
 
-      // OCR結果の処理
-      console.log('[v0] OCR completed, processing results...');
-      console.log('[DEBUG] Raw Tesseract result:', result);
-      console.log('[DEBUG] Tesseract result.data:', result.data);
+  // テキストソース設定に従ってページのテキストを取得
+  // PDFにテキストがあればそれを使い、テキストのないページ・画像領域のみOCRする
+  // 座標は getPageImage で得た画像の解像度に合わせる
+  const extractPageText = useCallback(
+    async (
+      pageNum: number,
+      getPageImage: () => Promise<Pick<
+        RenderedPageImage,
+        'imageDataUrl' | 'dpi'
+      > | null>,
+      onProgress?: (progress: number) => void
+    ): Promise<OCRTextData> => {
+      if (settings.textSource !== 'ocr' && pdfDocument) {
+        const page = await pdfDocument.getPage(pageNum);
+        const pdfTextData = await extractPDFTextData(
+          page,
+          imageCoordsToPDFPoints,
+          imageDpi
+        );
+        console.log(
+          `[v0] Extracted ${pdfTextData.words.length} words from PDF text layer on page ${pageNum}`
+        );
 
-      const processedData = processOCRResult(
-        result.data,
-        (x, y, width, height) => imageCoordsToPDFPoints(x, y, width, height)
+        if (settings.textSource === 'pdf') return pdfTextData;
+
+        if (pdfTextData.words.length > 0) {
+          if (!(await pageHasImages(page))) return pdfTextData;
+
+          // 画像を含むページは、既存テキストの領域を除いてOCRし結果を結合
+          const pageImage = await getPageImage();
+          if (!pageImage) return pdfTextData;
+
+          const pageTextData = rescaleOCRResult(pdfTextData, pageImage.dpi);
+          const maskedImageUrl = await maskImageRegions(
+            pageImage.imageDataUrl,
+            pageTextData.words.map((word) => word.bbox.original)
+          );
+          const ocrData = await recognizeImage(
+            maskedImageUrl,
+            onProgress,
+            settings.language,
+            pageImage.dpi
+          );
+          return ocrData.words.length > 0
+            ? mergeOCRResults(pageTextData, ocrData)
+            : pageTextData;
+        }
+      }
+
+      const pageImage = await getPageImage();
+      if (!pageImage) throw new Error(`No image for page ${pageNum}`);
+      return recognizeImage(
+        pageImage.imageDataUrl,
+        onProgress,
+        settings.language,
+        pageImage.dpi
       );
+    },
+    [
+      settings.textSource,
+      settings.language,
+      pdfDocument,
+      imageCoordsToPDFPoints,
+      imageDpi,
+      recognizeImage,
+    ]
+  );
+
+  // OCRを実行（現在のページ）
+  const performOCR = useCallback(async (): Promise<OCRTextData | null> => {
+    if (!imageDataUrl) {
+      console.error('[v0] OCR not available - missing image');
+      return null;
+    }
+
+    const page = currentPage;
+    setIsProcessing(true);
+    console.log('[v0] Starting OCR processing with enhanced settings...');
+
+    try {
+      const processedData = await extractPageText(page, async () => ({
+        imageDataUrl,
+        dpi: imageDpi,
+      }));
 
-      setTextData(processedData);
+      setTextDataByPage((prev) => ({ ...prev, [page]: processedData }));
       console.log(
         '[v0] OCR text data saved with',
         processedData.words.length,
         'words'
       );
+      return processedData;
     } catch (error: unknown) {
       console.error('[v0] OCR processing failed:', error);
+      return null;
     } finally {
       setIsProcessing(false);
     }
-  }, [imageDataUrl, settings, convertDisplayToPDF, imageCoordsToPDFPoints]);
+  }, [imageDataUrl, imageDpi, currentPage, extractPageText]);
+
+  // 選択領域（pt）だけを切り出してOCRし、現在のページの結果の該当領域を置き換える
+  const performRegionOCR = useCallback(
+    async (region: {
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    }): Promise<OCRTextData | null> => {
+      if (!imageDataUrl) {
+        console.error('[v0] Region OCR not available - missing image');
+        return null;
+      }
+
+      const page = currentPage;
+      const dpiScale = getDpiScale(imageDpi);
+      const imageRect = {
+        x0: region.x * dpiScale,
+        y0: region.y * dpiScale,
+        x1: (region.x + region.width) * dpiScale,
+        y1: (region.y + region.height) * dpiScale,
+      };
+
+      setIsProcessing(true);
+      console.log('[v0] Starting region OCR:', { page, region, imageRect });
+
+      try {
+        const { imageUrl, offsetX, offsetY } = await cropImageRegion(
+          imageDataUrl,
+          imageRect
+        );
+        // 小さな切り抜きでは向き・傾きの推定が当てにならず、正しい向きの画像を
+        // 90度単位で回してしまうことがあるため、ページ補正は行わない
+        const cropData = await recognizeImage(
+          imageUrl,
+          undefined,
+          regionSettings.language,
+          imageDpi,
+          (x, y, width, height) =>
+            imageCoordsToPDFPoints(x + offsetX, y + offsetY, width, height),
+          false
+        );
+        const regionData = offsetOCRResult(cropData, offsetX, offsetY);
+
+        setTextDataByPage((prev) => ({
+          ...prev,
+          // 以前の結果は別の解像度で認識している場合があるので合わせてから置き換える
+          [page]: prev[page]
+            ? replaceOCRRegion(
+                rescaleOCRResult(prev[page], imageDpi),
+                regionData,
+                imageRect
+              )
+            : regionData,
+        }));
+        console.log(
+          '[v0] Region OCR completed with',
+          regionData.words.length,
+          'words'
+        );
+        return regionData;
+      } catch (error: unknown) {
+        console.error('[v0] Region OCR failed:', error);
+        return null;
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [
+      imageDataUrl,
+      currentPage,
+      regionSettings.language,
+      imageDpi,
+      recognizeImage,
+      imageCoordsToPDFPoints,
+    ]
+  );
+
+  // 複数ページのOCRを順番に実行
+  const performBatchOCR = useCallback(
+    async (
+      pages: number[],
+      renderPage: (pageNum: number) => Promise<RenderedPageImage | null>,
+      onPageComplete?: (pageNum: number, data: OCRTextData) => void
+    ) => {
+      if (pages.length === 0) {
+        console.error('[v0] Batch OCR not available - no pages selected');
+        return;
+      }
+
+      batchCancelledRef.current = false;
+      setIsProcessing(true);
+      setBatchProgress({
+        pages,
+        currentPage: null,
+        pageProgress: 0,
+        completed: 0,
+        statuses: Object.fromEntries(pages.map((page) => [page, 'pending'])),
+      });
+
+      const updateStatus = (
+        pageNum: number,
+        status: BatchOCRProgress['statuses'][number]
+      ) => {
+        setBatchProgress((prev) =>
+          prev
+            ? { ...prev, statuses: { ...prev.statuses, [pageNum]: status } }
+            : prev
+        );
+      };
+
+      try {
+        for (const pageNum of pages) {
+          if (batchCancelledRef.current) {
+            updateStatus(pageNum, 'cancelled');
+            continue;
+          }
+
+          setBatchProgress((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  currentPage: pageNum,
+                  pageProgress: 0,
+                  statuses: { ...prev.statuses, [pageNum]: 'processing' },
+                }
+              : prev
+          );
+
+          try {
+            const pageData = await extractPageText(
+              pageNum,
+              () => renderPage(pageNum),
+              (progress) =>
+                setBatchProgress((prev) =>
+                  prev ? { ...prev, pageProgress: progress } : prev
+                )
+            );
+
+            setTextDataByPage((prev) => ({ ...prev, [pageNum]: pageData }));
+            onPageComplete?.(pageNum, pageData);
+            updateStatus(pageNum, 'done');
+            console.log(
+              `[v0] Batch OCR page ${pageNum} done with`,
+              pageData.words.length,
+              'words'
+            );
+          } catch (error: unknown) {
+            if (batchCancelledRef.current) {
+              updateStatus(pageNum, 'cancelled');
+              continue;
+            }
+            console.error(`[v0] Batch OCR failed on page ${pageNum}:`, error);
+            updateStatus(pageNum, 'error');
+          }
+
+          setBatchProgress((prev) =>
+            prev ? { ...prev, completed: prev.completed + 1 } : prev
+          );
+        }
+      } finally {
+        setBatchProgress((prev) =>
+          prev ? { ...prev, currentPage: null, pageProgress: 0 } : prev
+        );
+        setIsProcessing(false);
+      }
+    },
+    [extractPageText]
+  );
+
+  // バッチOCRをキャンセル（処理中のページの認識も中断）
+  const cancelBatchOCR = useCallback(() => {
+    batchCancelledRef.current = true;
+    cancelRecognition();
+  }, [cancelRecognition]);
+
+  // 外部で作成・修正したOCR結果（hOCR / ALTO）を取り込む
+  const importTextData = useCallback(
+    (dataByPage: Record<number, OCRTextData>) => {
+      setTextDataByPage((prev) => ({ ...prev, ...dataByPage }));
+    },
+    []
+  );
 
   // OCR結果から境界ボックスを生成
   const generateBoundingBoxes = useCallback(
-    (unit: 'px' | 'mm' | 'pt'): BoundingBox[] => {
-      if (!textData) return [];
+    (
+      unit: Unit,
+      data: OCRTextData | null = textData,
+      level: OCRLevel = settings.level
+    ): BoundingBox[] => {
+      if (!data) return [];
 
       const boxes: BoundingBox[] = [];
-      const items = getOCRDataByLevel(textData, settings.level);
+      const items = getOCRDataByLevel(data, level);
       const filteredItems = filterOCRResultsByConfidence(
         items,
         settings.minConfidence
@@ -114,7 +525,7 @@ export const useOCR = (
         if (coords && coords.x !== 0 && coords.y !== 0) {
           console.log(`[DEBUG] Adding OCR box ${index}:`, coords);
           boxes.push({
-            id: `ocr-${settings.level}-bbox-${Date.now()}-${index}`,
+            id: `ocr-${level}-bbox-${Date.now()}-${index}`,
             x: coords.x,
             y: coords.y,
             width: coords.width,
@@ -140,6 +551,22 @@ export const useOCR = (
     setSettings((prev) => ({ ...prev, ...newSettings }));
   }, []);
 
+  // ページ補正の設定を更新
+  const updateCorrectionSettings = useCallback(
+    (newSettings: Partial<PageCorrectionSettings>) => {
+      setCorrectionSettings((prev) => ({ ...prev, ...newSettings }));
+    },
+    []
+  );
+
+  // 領域OCRの設定を更新
+  const updateRegionSettings = useCallback(
+    (newSettings: Partial<RegionOCRSettings>) => {
+      setRegionSettings((prev) => ({ ...prev, ...newSettings }));
+    },
+    []
+  );
+
   // OCR結果をエクスポート
   const exportOCRData = useCallback(() => {
     if (!textData) {
@@ -157,27 +584,28 @@ export const useOCR = (
     };
   }, [textData, settings]);
 
-  // Tesseract.jsを初期化
-  useEffect(() => {
-    const script = document.createElement('script');
-    script.src = 'https://unpkg.com/tesseract.js@v5.0.0/dist/tesseract.min.js';
-    script.onload = () => {
-      console.log('[v0] Tesseract.js loaded successfully');
-    };
-    document.head.appendChild(script);
-
-    return () => {
-      document.head.removeChild(script);
-    };
-  }, []);
-
   return {
     settings,
+    regionSettings,
+    correctionSettings,
+    lastTransform,
     textData,
+    textDataByPage,
     isProcessing,
+    progress,
+    engineError,
+    batchProgress,
     performOCR,
+    performRegionOCR,
+    performBatchOCR,
+    cancelBatchOCR,
+    cancelOCR: cancelRecognition,
+    importTextData,
     generateBoundingBoxes,
     updateSettings,
+    updateRegionSettings,
+    updateCorrectionSettings,
+    correctPageImage,
     exportOCRData,
   };
 };
@@ -1,10 +1,23 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { PDFDocumentInfo, Point, BoundingBox } from '../utils/types';
+import type {
+  PDFDocumentInfo,
+  Point,
+  BoundingBox,
+  RenderedPageImage,
+} from '../utils/types';
 import {
+  DEFAULT_RENDER_DPI,
   displayToImageCoords,
-  imageCoordsToPDFPoints,
+  getDpiScale,
+  imageCoordsToPDFPoints as convertImageCoordsToPDFPoints,
   pdfPointsToDisplayCoords,
 } from '../utils/coordinateConversion';
+import { getDisplayViewport } from '../utils/pageGeometry';
+import {
+  VENDOR_ASSETS,
+  assertAssetAvailable,
+  loadScript,
+} from '../utils/vendorAssets';
 
 export const usePDF = () => {
   const [pdfInfo, setPdfInfo] = useState<PDFDocumentInfo>({
@@ -15,9 +28,14 @@ export const usePDF = () => {
     imageDataUrl: null,
     originalDimensions: null,
     isLoaded: false,
+    renderDpi: DEFAULT_RENDER_DPI,
+    imageDpi: DEFAULT_RENDER_DPI,
+    pageSize: null,
   });
 
   const [isConverting, setIsConverting] = useState(false);
+  // PDF.jsの読み込みに失敗した場合のエラー
+  const [pdfjsError, setPdfjsError] = useState<string | null>(null);
 
   // PDFファイルを読み込む
   const loadPDFFile = useCallback(async (file: File) => {
@@ -32,8 +50,12 @@ export const usePDF = () => {
 
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer })
-        .promise;
+      const pdf = await window.pdfjsLib.getDocument({
+        data: arrayBuffer,
+        cMapUrl: VENDOR_ASSETS.pdfjs.cMaps,
+        cMapPacked: true,
+        standardFontDataUrl: VENDOR_ASSETS.pdfjs.standardFonts,
+      }).promise;
 
       setPdfInfo((prev) => ({
         ...prev,
@@ -49,10 +71,17 @@ export const usePDF = () => {
     }
   }, []);
 
-  // PDFページを画像に変換
-  const convertPageToImage = useCallback(
-    async (pageNum: number) => {
-      if (!pdfInfo.document) return;
+  // 表示中の画像の座標をPDFポイントに変換
+  const imageCoordsToPDFPoints = useCallback(
+    (x: number, y: number, width: number, height: number) =>
+      convertImageCoordsToPDFPoints(x, y, width, height, pdfInfo.imageDpi),
+    [pdfInfo.imageDpi]
+  );
+
+  // PDFページを描画解像度の画像にレンダリング（表示状態は変更しない）
+  const renderPageToImage = useCallback(
+    async (pageNum: number): Promise<RenderedPageImage | null> => {
+      if (!pdfInfo.document) return null;
 
       if (pageNum < 1 || pageNum > pdfInfo.totalPages) {
         console.error(
@@ -61,62 +90,73 @@ export const usePDF = () => {
           'Total pages:',
           pdfInfo.totalPages
         );
-        return;
+        return null;
       }
 
+      const page = await pdfInfo.document.getPage(pageNum);
+      const dpi = pdfInfo.renderDpi;
+      const scale = getDpiScale(dpi);
+      const viewport = getDisplayViewport(page, scale);
+
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas context not available');
+
+      canvas.height = viewport.height;
+      canvas.width = viewport.width;
+
+      const renderContext = {
+        canvasContext: context,
+        viewport: viewport,
+      };
+
+      await page.render(renderContext).promise;
+
+      const dataUrl = canvas.toDataURL('image/png', 1.0);
+
+      // Get original PDF size for reference
+      const originalViewport = getDisplayViewport(page, 1);
+
+      return {
+        imageDataUrl: dataUrl,
+        dimensions: {
+          width: viewport.width,
+          height: viewport.height,
+        },
+        dpi,
+        pageSize: {
+          width: originalViewport.width,
+          height: originalViewport.height,
+        },
+      };
+    },
+    [pdfInfo.document, pdfInfo.totalPages, pdfInfo.renderDpi]
+  );
+
+  // PDFページを画像に変換
+  const convertPageToImage = useCallback(
+    async (pageNum: number) => {
       setIsConverting(true);
 
       try {
-        const page = await pdfInfo.document.getPage(pageNum);
-        const scale = 300 / 72;
-        const viewport = page.getViewport({ scale });
-
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        if (!context) throw new Error('Canvas context not available');
-
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport,
-        };
-
-        await page.render(renderContext).promise;
-
-        const dataUrl = canvas.toDataURL('image/png', 1.0);
-
-        // Get original PDF size for reference
-        const originalViewport = page.getViewport({ scale: 1 });
+        const rendered = await renderPageToImage(pageNum);
+        if (!rendered) return;
 
         setPdfInfo((prev) => ({
           ...prev,
           currentPage: pageNum,
-          imageDataUrl: dataUrl,
-          originalDimensions: {
-            width: viewport.width,
-            height: viewport.height,
-          },
+          imageDataUrl: rendered.imageDataUrl,
+          originalDimensions: rendered.dimensions,
+          imageDpi: rendered.dpi,
+          pageSize: rendered.pageSize,
         }));
-
-        console.log('[v0] PDF dimensions:', {
-          original72DPI: {
-            width: originalViewport.width,
-            height: originalViewport.height,
-          },
-          scaled300DPI: { width: viewport.width, height: viewport.height },
-          scale: 300 / 72,
-        });
-
-        console.log('[v0] PDF converted to 300 DPI image successfully');
       } catch (error) {
         console.error('[v0] Error converting PDF to image:', error);
       } finally {
         setIsConverting(false);
       }
     },
-    [pdfInfo.document, pdfInfo.totalPages]
+    [renderPageToImage]
   );
 
   // ページを変更
@@ -129,6 +169,13 @@ export const usePDF = () => {
     [pdfInfo.totalPages]
   );
 
+  // 描画解像度を変更（現在のページは再描画される）
+  const changeRenderDpi = useCallback((dpi: number) => {
+    if (dpi > 0) {
+      setPdfInfo((prev) => ({ ...prev, renderDpi: dpi }));
+    }
+  }, []);
+
   // ディスプレイ座標をPDF座標に変換
   const convertDisplayToPDF = useCallback(
     (
@@ -168,7 +215,7 @@ export const usePDF = () => {
         imageCoords.height
       );
     },
-    [pdfInfo.originalDimensions]
+    [pdfInfo.originalDimensions, imageCoordsToPDFPoints]
   );
 
   // PDF座標をディスプレイ座標に変換
@@ -182,10 +229,11 @@ export const usePDF = () => {
         pdfWidth,
         pdfHeight,
         pdfInfo.originalDimensions,
-        document.querySelector('img') as HTMLImageElement
+        document.querySelector('#pdf-image') as HTMLImageElement,
+        pdfInfo.imageDpi
       );
     },
-    [pdfInfo.originalDimensions]
+    [pdfInfo.originalDimensions, pdfInfo.imageDpi]
   );
 
   // ドロップされたファイルを処理
@@ -213,23 +261,29 @@ export const usePDF = () => {
     [loadPDFFile]
   );
 
-  // PDF.jsを初期化
+  // PDF.jsを初期化（public/vendor から読み込む）
   useEffect(() => {
-    const script = document.createElement('script');
-    script.src =
-      'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-    script.onload = () => {
-      if (window.pdfjsLib) {
+    Promise.all([
+      loadScript(VENDOR_ASSETS.pdfjs.script),
+      assertAssetAvailable(VENDOR_ASSETS.pdfjs.worker),
+    ])
+      .then(() => {
+        if (!window.pdfjsLib) {
+          throw new Error('PDF.js loaded but window.pdfjsLib is undefined');
+        }
         window.pdfjsLib.GlobalWorkerOptions.workerSrc =
-          'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+          VENDOR_ASSETS.pdfjs.worker;
+        setPdfjsError(null);
         console.log('[v0] PDF.js loaded successfully');
-      }
-    };
-    document.head.appendChild(script);
-
-    return () => {
-      document.head.removeChild(script);
-    };
+      })
+      .catch((error: unknown) => {
+        console.error('[v0] Failed to load PDF.js:', error);
+        setPdfjsError(
+          error instanceof Error
+            ? error.message
+            : 'PDF.jsの読み込みに失敗しました'
+        );
+      });
   }, []);
 
   // PDFが読み込まれたら最初のページを変換
@@ -247,9 +301,12 @@ export const usePDF = () => {
   return {
     pdfInfo,
     isConverting,
+    pdfjsError,
     loadPDFFile,
+    renderPageToImage,
     convertPageToImage,
     changePage,
+    changeRenderDpi,
     convertDisplayToPDF,
     convertPDFToDisplay,
     imageCoordsToPDFPoints,
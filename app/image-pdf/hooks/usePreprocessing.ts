@@ -0,0 +1,218 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type {
+  PreprocessingPreset,
+  PreprocessingStep,
+  PreprocessingStepType,
+} from '../utils/types';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET_NAME,
+  applyPreprocessingSteps,
+  createPreprocessingStep,
+} from '../utils/preprocessingPipeline';
+
+// ユーザーが保存したプリセットの保存先
+const PRESETS_STORAGE_KEY = 'image-pdf:preprocessing-presets';
+// パラメータの変更が落ち着いてからプレビューを更新する
+const PREVIEW_DEBOUNCE_MS = 400;
+
+// プリセットのステップを複製（編集がプリセット側に反映されないようにする）
+const cloneSteps = (steps: PreprocessingStep[]): PreprocessingStep[] =>
+  steps.map((step) => ({
+    ...createPreprocessingStep(step.type, step.params),
+    enabled: step.enabled,
+  }));
+
+const loadUserPresets = (): PreprocessingPreset[] => {
+  try {
+    const stored = window.localStorage.getItem(PRESETS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PreprocessingPreset[]) : [];
+  } catch (error: unknown) {
+    console.warn('[v0] Failed to load preprocessing presets:', error);
+    return [];
+  }
+};
+
+export const usePreprocessing = (imageDataUrl: string | null) => {
+  const [steps, setSteps] = useState<PreprocessingStep[]>(() =>
+    cloneSteps(BUILT_IN_PRESETS[0].steps)
+  );
+  const [userPresets, setUserPresets] = useState<PreprocessingPreset[]>([]);
+  // ステップを編集するとプリセットの選択を外す
+  const [activePresetName, setActivePresetName] = useState<string | null>(
+    DEFAULT_PRESET_NAME
+  );
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const presets = useMemo(
+    () => [...BUILT_IN_PRESETS, ...userPresets],
+    [userPresets]
+  );
+
+  // 保存済みのプリセットを読み込む（localStorageはクライアントでのみ参照できる）
+  useEffect(() => {
+    setUserPresets(loadUserPresets());
+  }, []);
+
+  const saveUserPresets = useCallback((nextPresets: PreprocessingPreset[]) => {
+    setUserPresets(nextPresets);
+    try {
+      window.localStorage.setItem(
+        PRESETS_STORAGE_KEY,
+        JSON.stringify(nextPresets)
+      );
+    } catch (error: unknown) {
+      console.warn('[v0] Failed to save preprocessing presets:', error);
+    }
+  }, []);
+
+  const editSteps = useCallback(
+    (update: (prev: PreprocessingStep[]) => PreprocessingStep[]) => {
+      setSteps(update);
+      setActivePresetName(null);
+    },
+    []
+  );
+
+  const addStep = useCallback(
+    (type: PreprocessingStepType) => {
+      editSteps((prev) => [...prev, createPreprocessingStep(type)]);
+    },
+    [editSteps]
+  );
+
+  const updateStep = useCallback(
+    (
+      stepId: string,
+      updates: Partial<Pick<PreprocessingStep, 'enabled' | 'params'>>
+    ) => {
+      editSteps((prev) =>
+        prev.map((step) =>
+          step.id === stepId
+            ? {
+                ...step,
+                ...updates,
+                params: { ...step.params, ...updates.params },
+              }
+            : step
+        )
+      );
+    },
+    [editSteps]
+  );
+
+  const removeStep = useCallback(
+    (stepId: string) => {
+      editSteps((prev) => prev.filter((step) => step.id !== stepId));
+    },
+    [editSteps]
+  );
+
+  // ステップを前後に移動（direction: -1 で前、1 で後ろ）
+  const moveStep = useCallback(
+    (stepId: string, direction: -1 | 1) => {
+      editSteps((prev) => {
+        const index = prev.findIndex((step) => step.id === stepId);
+        const target = index + direction;
+        if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+        const next = [...prev];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+      });
+    },
+    [editSteps]
+  );
+
+  const applyPreset = useCallback(
+    (name: string) => {
+      const preset = presets.find((candidate) => candidate.name === name);
+      if (!preset) return;
+      setSteps(cloneSteps(preset.steps));
+      setActivePresetName(preset.name);
+    },
+    [presets]
+  );
+
+  // 現在のステップを名前を付けて保存（同名のユーザープリセットは上書き）
+  const savePreset = useCallback(
+    (name: string): boolean => {
+      const trimmed = name.trim();
+      if (
+        !trimmed ||
+        BUILT_IN_PRESETS.some((preset) => preset.name === trimmed)
+      ) {
+        return false;
+      }
+
+      saveUserPresets([
+        ...userPresets.filter((preset) => preset.name !== trimmed),
+        { name: trimmed, steps },
+      ]);
+      setActivePresetName(trimmed);
+      return true;
+    },
+    [steps, userPresets, saveUserPresets]
+  );
+
+  const deletePreset = useCallback(
+    (name: string) => {
+      saveUserPresets(userPresets.filter((preset) => preset.name !== name));
+      setActivePresetName((prev) => (prev === name ? null : prev));
+    },
+    [userPresets, saveUserPresets]
+  );
+
+  // 画像に現在の前処理を適用（OCR・表検出から呼ばれる）
+  const preprocessImage = useCallback(
+    (imageUrl: string): Promise<string> =>
+      applyPreprocessingSteps(imageUrl, steps),
+    [steps]
+  );
+
+  // 前処理後のプレビューを更新
+  useEffect(() => {
+    if (!imageDataUrl) {
+      setPreviewUrl(null);
+      setIsPreviewing(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsPreviewing(true);
+      preprocessImage(imageDataUrl)
+        .then((url) => {
+          if (!cancelled) setPreviewUrl(url);
+        })
+        .catch((error: unknown) => {
+          console.error('[v0] Preprocessing preview failed:', error);
+        })
+        .finally(() => {
+          if (!cancelled) setIsPreviewing(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [imageDataUrl, preprocessImage]);
+
+  return {
+    steps,
+    presets,
+    activePresetName,
+    previewUrl,
+    isPreviewing,
+    addStep,
+    updateStep,
+    removeStep,
+    moveStep,
+    applyPreset,
+    savePreset,
+    deletePreset,
+    preprocessImage,
+  };
+};
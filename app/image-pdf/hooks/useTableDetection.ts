@@ -1,19 +1,35 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { TableDetectionMode, BoundingBox } from '../utils/types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type {
+  TableDetectionMode,
+  TableDetectionResult,
+  OCRTextData,
+  BoundingBox,
+  PageTransform,
+  TableStructure,
+} from '../utils/types';
 import { imageCoordsToPDFPoints } from '../utils/coordinateConversion';
+import { loadImage } from '../utils/imagePreprocessing';
+import { mapRectToSource, transformPageImage } from '../utils/pageCorrection';
 import {
   detectHorizontalLines,
   detectVerticalLines,
   filterLines,
+  collapseLineRuns,
+  findLinePositions,
+  createDarkPixelTest,
+  createMaskPixelTest,
   detectTableRegions,
-  createCellsFromLines,
+  detectBorderlessTables,
+  createMergedCellsFromLines,
+  createTableStructure,
   convertTableRegionToBoundingBox,
-  convertTableCellToBoundingBox,
   convertTableLineToBoundingBox,
 } from '../utils/tableDetectionUtils';
+import { VENDOR_ASSETS, loadScript } from '../utils/vendorAssets';
 
 export const useTableDetection = (
   imageDataUrl: string | null,
+  currentPage: number,
   convertDisplayToPDF: (
     x: number,
     y: number,
@@ -21,46 +37,59 @@ export const useTableDetection = (
     height: number,
     imageElement?: HTMLImageElement
   ) => any,
-  selectedUnit: 'px' | 'mm' | 'pt'
+  ocrTextData: OCRTextData | null,
+  // 現在の補正設定でページ画像の向きと傾きを補正（useOCR）
+  correctPageImage: (
+    imageUrl: string
+  ) => Promise<{ imageUrl: string; transform: PageTransform }>,
+  preprocessImage: (imageUrl: string) => Promise<string>,
+  // 表示中のページ画像の解像度（PDFDocumentInfo.imageDpi）
+  imageDpi: number
 ) => {
   const [mode, setMode] = useState<TableDetectionMode>('table');
   const [isProcessing, setIsProcessing] = useState(false);
   const [cvLoaded, setCvLoaded] = useState(false);
   const [cvError, setCvError] = useState<string | null>(null);
   const [cvLoadingProgress, setCvLoadingProgress] = useState<number>(0);
-
-  // OpenCVを初期化
+  // 直近の表検出のエラー（OpenCV.jsの読み込みエラーとは別に扱う）
+  const [detectionError, setDetectionError] = useState<string | null>(null);
+  // ページごとの補正結果（元のページ画像が変わったら使わない）
+  const correctionCacheRef = useRef<
+    Record<
+      number,
+      { sourceUrl: string; imageUrl: string; transform: PageTransform }
+    >
+  >({});
+
+  // 補正設定が変わったら補正し直す
   useEffect(() => {
-    const cvSources = [
-      'https://docs.opencv.org/4.x/opencv.js',
-      'https://cdn.jsdelivr.net/npm/opencv.js@4.8.0/opencv.js',
-      'https://unpkg.com/opencv.js@4.8.0/opencv.js',
-    ];
+    correctionCacheRef.current = {};
+  }, [correctPageImage]);
 
-    let currentSourceIndex = 0;
+  // OpenCVを初期化（public/vendor から読み込む）
+  useEffect(() => {
+    let initialized = false;
     const loadStartTime = Date.now();
+    const source = VENDOR_ASSETS.opencv.script;
+    console.log(`[v0] Loading OpenCV.js from: ${source}`);
+
+    const markInitialized = () => {
+      if (initialized) return;
+      initialized = true;
+      setCvLoaded(true);
+      setCvError(null);
+      setCvLoadingProgress(100);
+    };
 
-    const loadCvScript = (sourceIndex: number) => {
-      if (sourceIndex >= cvSources.length) {
-        setCvError('全てのCDNからOpenCV.jsの読み込みに失敗しました');
-        console.error('[v0] All OpenCV.js CDN sources failed');
-        return;
-      }
-
-      const source = cvSources[sourceIndex];
-      console.log(`[v0] Trying OpenCV.js from: ${source}`);
-
-      const cvScript = document.createElement('script');
-      cvScript.src = source;
-      cvScript.async = true;
-
-      const progressInterval = setInterval(() => {
-        const elapsed = Date.now() - loadStartTime;
-        const simulatedProgress = Math.min(90, (elapsed / 30000) * 100);
-        setCvLoadingProgress(simulatedProgress);
-      }, 500);
+    const progressInterval = setInterval(() => {
+      const elapsed = Date.now() - loadStartTime;
+      const simulatedProgress = Math.min(90, (elapsed / 30000) * 100);
+      setCvLoadingProgress(simulatedProgress);
+    }, 500);
+    let initTimeout: ReturnType<typeof setTimeout> | undefined;
 
-      cvScript.onload = () => {
+    loadScript(source)
+      .then(() => {
         clearInterval(progressInterval);
         console.log(
           `[v0] OpenCV.js loaded from ${source} in ${
@@ -68,429 +97,524 @@ export const useTableDetection = (
           }ms`
         );
 
-        if (window.cv) {
-          setCvLoadingProgress(95);
-          window.cv['onRuntimeInitialized'] = () => {
-            setCvLoaded(true);
-            setCvError(null);
-            setCvLoadingProgress(100);
-            console.log('[v0] OpenCV.js loaded and initialized successfully');
-          };
-
-          setTimeout(() => {
-            if (!cvLoaded) {
-              console.warn(
-                '[v0] OpenCV.js loaded but initialization timeout - trying manual init'
-              );
-              setCvLoaded(true);
-              setCvError(null);
-              setCvLoadingProgress(100);
-            }
-          }, 20000);
-        } else {
-          console.error(
-            `[v0] OpenCV.js loaded from ${source} but window.cv is undefined`
+        if (!window.cv) {
+          throw new Error(
+            `${source} を読み込みましたが window.cv がありません`
           );
-          currentSourceIndex++;
-          loadCvScript(currentSourceIndex);
         }
-      };
 
-      cvScript.onerror = (e) => {
+        // 既に初期化済み（再マウント時など）
+        if (window.cv.Mat) {
+          markInitialized();
+          return;
+        }
+
+        setCvLoadingProgress(95);
+        window.cv['onRuntimeInitialized'] = () => {
+          markInitialized();
+          console.log('[v0] OpenCV.js loaded and initialized successfully');
+        };
+
+        initTimeout = setTimeout(() => {
+          if (!initialized) {
+            console.warn(
+              '[v0] OpenCV.js loaded but initialization timeout - trying manual init'
+            );
+            markInitialized();
+          }
+        }, 20000);
+      })
+      .catch((error: unknown) => {
         clearInterval(progressInterval);
-        console.error(`[v0] Failed to load OpenCV.js from ${source}:`, e);
-        currentSourceIndex++;
-        loadCvScript(currentSourceIndex);
-      };
+        console.error('[v0] Failed to load OpenCV.js:', error);
+        setCvError(
+          error instanceof Error
+            ? error.message
+            : 'OpenCV.jsの読み込みに失敗しました'
+        );
+      });
 
-      document.head.appendChild(cvScript);
+    return () => {
+      clearInterval(progressInterval);
+      clearTimeout(initTimeout);
     };
+  }, []);
+
+  // 向きと傾きを補正したページ画像を取得
+  // OCR時の補正があれば再利用し、なければ現在の設定で補正してページごとに保持する
+  const getCorrectedPageImage = useCallback(
+    async (
+      sourceUrl: string
+    ): Promise<{ imageUrl: string; transform: PageTransform }> => {
+      if (ocrTextData?.transform) {
+        return transformPageImage(
+          sourceUrl,
+          ocrTextData.transform.rotation,
+          ocrTextData.transform.skewAngle
+        );
+      }
 
-    loadCvScript(0);
-  }, [cvLoaded]);
+      const cached = correctionCacheRef.current[currentPage];
+      if (cached?.sourceUrl === sourceUrl) return cached;
 
-  // OpenCVを使用した表検出
-  const detectTablesWithOpenCV = useCallback(async (): Promise<
-    BoundingBox[]
-  > => {
+      const corrected = await correctPageImage(sourceUrl);
+      correctionCacheRef.current[currentPage] = { sourceUrl, ...corrected };
+      return corrected;
+    },
+    [ocrTextData, currentPage, correctPageImage]
+  );
+
+  // 向きと傾きを補正して前処理したページ画像と、その座標をPDFポイントに変換する関数
+  const loadCorrectedImage = useCallback(async () => {
     if (!imageDataUrl)
       throw new Error('No image available for table detection');
 
-    const img = document.querySelector('img') as HTMLImageElement;
-    if (!img || !img.complete || img.naturalWidth === 0) {
-      throw new Error('Image not fully loaded');
-    }
+    const { imageUrl, transform } = await getCorrectedPageImage(imageDataUrl);
+    const img = await loadImage(await preprocessImage(imageUrl));
+    const toPDFPoints = (
+      x: number,
+      y: number,
+      width: number,
+      height: number
+    ) => {
+      const rect = mapRectToSource(transform, {
+        x0: x,
+        y0: y,
+        x1: x + width,
+        y1: y + height,
+      });
+      return imageCoordsToPDFPoints(
+        rect.x0,
+        rect.y0,
+        rect.x1 - rect.x0,
+        rect.y1 - rect.y0,
+        imageDpi
+      );
+    };
+    return { img, dpi: imageDpi, toPDFPoints };
+  }, [imageDataUrl, getCorrectedPageImage, preprocessImage, imageDpi]);
 
-    console.log('[v0] Initializing OpenCV operations...');
-    const cv = window.cv;
+  // OpenCVを使用した表検出
+  const detectTablesWithOpenCV =
+    useCallback(async (): Promise<TableDetectionResult> => {
+      const { img, dpi, toPDFPoints } = await loadCorrectedImage();
+      if (img.naturalWidth === 0) {
+        throw new Error('Image not fully loaded');
+      }
 
-    const src = cv.imread(img);
-    console.log('[v0] Image dimensions:', src.rows, 'x', src.cols);
+      console.log('[v0] Initializing OpenCV operations...');
+      const cv = window.cv;
 
-    if (src.rows === 0 || src.cols === 0) {
-      throw new Error('Invalid image dimensions');
-    }
+      const src = cv.imread(img);
+      console.log('[v0] Image dimensions:', src.rows, 'x', src.cols);
 
-    const gray = new cv.Mat();
-    const bin = new cv.Mat();
+      if (src.rows === 0 || src.cols === 0) {
+        throw new Error('Invalid image dimensions');
+      }
 
-    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
-    console.log('[v0] Converted to grayscale');
+      const gray = new cv.Mat();
+      const bin = new cv.Mat();
 
-    cv.adaptiveThreshold(
-      gray,
-      bin,
-      255,
-      cv.ADAPTIVE_THRESH_MEAN_C,
-      cv.THRESH_BINARY_INV,
-      15,
-      10
-    );
-    console.log('[v0] Applied adaptive threshold');
+      cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
+      console.log('[v0] Converted to grayscale');
 
-    const tableBoxes: BoundingBox[] = [];
+      cv.adaptiveThreshold(
+        gray,
+        bin,
+        255,
+        cv.ADAPTIVE_THRESH_MEAN_C,
+        cv.THRESH_BINARY_INV,
+        15,
+        10
+      );
+      console.log('[v0] Applied adaptive threshold');
 
-    if (mode === 'table') {
-      console.log('[v0] Using table region detection mode');
+      const tableBoxes: BoundingBox[] = [];
+      const tables: TableStructure[] = [];
 
-      const horizontal = new cv.Mat();
-      const vertical = new cv.Mat();
+      if (mode === 'table') {
+        console.log('[v0] Using table region detection mode');
 
-      const kernelH = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(Math.max(25, Math.floor(src.cols / 15)), 1)
-      );
-      const kernelV = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(1, Math.max(25, Math.floor(src.rows / 15)))
-      );
+        const horizontal = new cv.Mat();
+        const vertical = new cv.Mat();
 
-      cv.erode(bin, horizontal, kernelH);
-      cv.dilate(horizontal, horizontal, kernelH);
-      cv.erode(bin, vertical, kernelV);
-      cv.dilate(vertical, vertical, kernelV);
+        const kernelH = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(Math.max(25, Math.floor(src.cols / 15)), 1)
+        );
+        const kernelV = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(1, Math.max(25, Math.floor(src.rows / 15)))
+        );
 
-      const mask = new cv.Mat();
-      cv.bitwise_or(horizontal, vertical, mask);
+        cv.erode(bin, horizontal, kernelH);
+        cv.dilate(horizontal, horizontal, kernelH);
+        cv.erode(bin, vertical, kernelV);
+        cv.dilate(vertical, vertical, kernelV);
 
-      const kernelClean = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(5, 5)
-      );
-      cv.morphologyEx(mask, mask, cv.MORPH_CLOSE, kernelClean);
-      cv.morphologyEx(mask, mask, cv.MORPH_OPEN, kernelClean);
-
-      const contours = new cv.MatVector();
-      const hierarchy = new cv.Mat();
-      cv.findContours(
-        mask,
-        contours,
-        hierarchy,
-        cv.RETR_EXTERNAL,
-        cv.CHAIN_APPROX_SIMPLE
-      );
+        const mask = new cv.Mat();
+        cv.bitwise_or(horizontal, vertical, mask);
 
-      console.log('[v0] Found', contours.size(), 'contours in table detection');
-
-      for (let i = 0; i < contours.size(); i++) {
-        const cnt = contours.get(i);
-        const rect = cv.boundingRect(cnt);
-
-        const minWidth = Math.max(100, src.cols * 0.1);
-        const minHeight = Math.max(50, src.rows * 0.05);
-
-        if (
-          rect.width >= minWidth &&
-          rect.height >= minHeight &&
-          rect.width <= src.cols * 0.95 &&
-          rect.height <= src.rows * 0.95
-        ) {
-          console.log('[DEBUG] Table region detected:', rect);
-          // 画像座標を直接PDFポイントに変換
-          const coords = imageCoordsToPDFPoints(
-            rect.x,
-            rect.y,
-            rect.width,
-            rect.height
-          );
-          console.log('[DEBUG] Table region converted coords:', coords);
+        const kernelClean = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(5, 5)
+        );
+        cv.morphologyEx(mask, mask, cv.MORPH_CLOSE, kernelClean);
+        cv.morphologyEx(mask, mask, cv.MORPH_OPEN, kernelClean);
+
+        const contours = new cv.MatVector();
+        const hierarchy = new cv.Mat();
+        cv.findContours(
+          mask,
+          contours,
+          hierarchy,
+          cv.RETR_EXTERNAL,
+          cv.CHAIN_APPROX_SIMPLE
+        );
 
-          tableBoxes.push({
-            id: `table-region-${Date.now()}-${i}`,
-            x: coords.pt.x,
-            y: coords.pt.y,
-            width: coords.pt.width,
-            height: coords.pt.height,
-            unit: 'pt', // Always store in PDF points
-            kind: 'table',
-          });
-        }
-        cnt.delete();
-      }
+        console.log(
+          '[v0] Found',
+          contours.size(),
+          'contours in table detection'
+        );
 
-      // cleanup
-      horizontal.delete();
-      vertical.delete();
-      mask.delete();
-      contours.delete();
-      hierarchy.delete();
-      kernelH.delete();
-      kernelV.delete();
-      kernelClean.delete();
-    } else if (mode === 'lines') {
-      const horizontal = new cv.Mat();
-      const vertical = new cv.Mat();
-
-      const kernelH = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(Math.max(15, Math.floor(src.cols / 12)), 1)
-      );
-      cv.erode(bin, horizontal, kernelH);
-      cv.dilate(horizontal, horizontal, kernelH);
+        for (let i = 0; i < contours.size(); i++) {
+          const cnt = contours.get(i);
+          const rect = cv.boundingRect(cnt);
+
+          const minWidth = Math.max(100, src.cols * 0.1);
+          const minHeight = Math.max(50, src.rows * 0.05);
+
+          if (
+            rect.width >= minWidth &&
+            rect.height >= minHeight &&
+            rect.width <= src.cols * 0.95 &&
+            rect.height <= src.rows * 0.95
+          ) {
+            // 補正画像の座標を元のページのPDFポイントに変換
+            const coords = toPDFPoints(rect.x, rect.y, rect.width, rect.height);
+
+            tableBoxes.push({
+              id: `table-region-${Date.now()}-${i}`,
+              x: coords.pt.x,
+              y: coords.pt.y,
+              width: coords.pt.width,
+              height: coords.pt.height,
+              unit: 'pt', // Always store in PDF points
+              kind: 'table',
+            });
+          }
+          cnt.delete();
+        }
 
-      const kernelV = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(1, Math.max(15, Math.floor(src.rows / 12)))
-      );
-      cv.erode(bin, vertical, kernelV);
-      cv.dilate(vertical, vertical, kernelV);
-
-      const hContours = new cv.MatVector();
-      const hHierarchy = new cv.Mat();
-      cv.findContours(
-        horizontal,
-        hContours,
-        hHierarchy,
-        cv.RETR_EXTERNAL,
-        cv.CHAIN_APPROX_SIMPLE
-      );
+        // cleanup
+        horizontal.delete();
+        vertical.delete();
+        mask.delete();
+        contours.delete();
+        hierarchy.delete();
+        kernelH.delete();
+        kernelV.delete();
+        kernelClean.delete();
+      } else if (mode === 'lines') {
+        const horizontal = new cv.Mat();
+        const vertical = new cv.Mat();
+
+        const kernelH = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(Math.max(15, Math.floor(src.cols / 12)), 1)
+        );
+        cv.erode(bin, horizontal, kernelH);
+        cv.dilate(horizontal, horizontal, kernelH);
 
-      const vContours = new cv.MatVector();
-      const vHierarchy = new cv.Mat();
-      cv.findContours(
-        vertical,
-        vContours,
-        vHierarchy,
-        cv.RETR_EXTERNAL,
-        cv.CHAIN_APPROX_SIMPLE
-      );
+        const kernelV = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(1, Math.max(15, Math.floor(src.rows / 12)))
+        );
+        cv.erode(bin, vertical, kernelV);
+        cv.dilate(vertical, vertical, kernelV);
+
+        const hContours = new cv.MatVector();
+        const hHierarchy = new cv.Mat();
+        cv.findContours(
+          horizontal,
+          hContours,
+          hHierarchy,
+          cv.RETR_EXTERNAL,
+          cv.CHAIN_APPROX_SIMPLE
+        );
 
-      // Process horizontal lines
-      for (let i = 0; i < hContours.size(); i++) {
-        const cnt = hContours.get(i);
-        const rect = cv.boundingRect(cnt);
-        if (rect.width > src.cols * 0.1 || rect.width * rect.height > 1000) {
-          console.log('[DEBUG] Horizontal line detected:', rect);
-          const coords = imageCoordsToPDFPoints(
-            rect.x,
-            rect.y,
-            rect.width,
-            Math.max(1, rect.height)
-          );
-          console.log('[DEBUG] Horizontal line converted coords:', coords);
+        const vContours = new cv.MatVector();
+        const vHierarchy = new cv.Mat();
+        cv.findContours(
+          vertical,
+          vContours,
+          vHierarchy,
+          cv.RETR_EXTERNAL,
+          cv.CHAIN_APPROX_SIMPLE
+        );
 
-          tableBoxes.push({
-            id: `hline-${Date.now()}-${i}`,
-            x: coords.pt.x,
-            y: coords.pt.y,
-            width: coords.pt.width,
-            height: coords.pt.height,
-            unit: 'pt', // Always store in PDF points
-            kind: 'table',
-          });
+        // Process horizontal lines
+        for (let i = 0; i < hContours.size(); i++) {
+          const cnt = hContours.get(i);
+          const rect = cv.boundingRect(cnt);
+          if (rect.width > src.cols * 0.1 || rect.width * rect.height > 1000) {
+            const coords = toPDFPoints(
+              rect.x,
+              rect.y,
+              rect.width,
+              Math.max(1, rect.height)
+            );
+
+            tableBoxes.push({
+              id: `hline-${Date.now()}-${i}`,
+              x: coords.pt.x,
+              y: coords.pt.y,
+              width: coords.pt.width,
+              height: coords.pt.height,
+              unit: 'pt', // Always store in PDF points
+              kind: 'table',
+            });
+          }
+          cnt.delete();
         }
-        cnt.delete();
-      }
-
-      // Process vertical lines
-      for (let i = 0; i < vContours.size(); i++) {
-        const cnt = vContours.get(i);
-        const rect = cv.boundingRect(cnt);
-        if (rect.height > src.rows * 0.1 || rect.width * rect.height > 1000) {
-          console.log('[DEBUG] Vertical line detected:', rect);
-          const coords = imageCoordsToPDFPoints(
-            rect.x,
-            rect.y,
-            Math.max(1, rect.width),
-            rect.height
-          );
-          console.log('[DEBUG] Vertical line converted coords:', coords);
 
-          tableBoxes.push({
-            id: `vline-${Date.now()}-${i}`,
-            x: coords.pt.x,
-            y: coords.pt.y,
-            width: coords.pt.width,
-            height: coords.pt.height,
-            unit: 'pt', // Always store in PDF points
-            kind: 'table',
-          });
+        // Process vertical lines
+        for (let i = 0; i < vContours.size(); i++) {
+          const cnt = vContours.get(i);
+          const rect = cv.boundingRect(cnt);
+          if (rect.height > src.rows * 0.1 || rect.width * rect.height > 1000) {
+            const coords = toPDFPoints(
+              rect.x,
+              rect.y,
+              Math.max(1, rect.width),
+              rect.height
+            );
+
+            tableBoxes.push({
+              id: `vline-${Date.now()}-${i}`,
+              x: coords.pt.x,
+              y: coords.pt.y,
+              width: coords.pt.width,
+              height: coords.pt.height,
+              unit: 'pt', // Always store in PDF points
+              kind: 'table',
+            });
+          }
+          cnt.delete();
         }
-        cnt.delete();
-      }
 
-      // cleanup
-      horizontal.delete();
-      vertical.delete();
-      hContours.delete();
-      hHierarchy.delete();
-      vContours.delete();
-      vHierarchy.delete();
-      kernelH.delete();
-      kernelV.delete();
-    } else if (mode === 'cells') {
-      const horizontal = new cv.Mat();
-      const vertical = new cv.Mat();
-
-      const kernelH = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(Math.max(15, Math.floor(src.cols / 12)), 1)
-      );
-      cv.erode(bin, horizontal, kernelH);
-      cv.dilate(horizontal, horizontal, kernelH);
+        // cleanup
+        horizontal.delete();
+        vertical.delete();
+        hContours.delete();
+        hHierarchy.delete();
+        vContours.delete();
+        vHierarchy.delete();
+        kernelH.delete();
+        kernelV.delete();
+      } else if (mode === 'cells') {
+        const horizontal = new cv.Mat();
+        const vertical = new cv.Mat();
+
+        const kernelHLength = Math.max(15, Math.floor(src.cols / 12));
+        const kernelVLength = Math.max(15, Math.floor(src.rows / 12));
+        const kernelH = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(kernelHLength, 1)
+        );
+        cv.erode(bin, horizontal, kernelH);
+        cv.dilate(horizontal, horizontal, kernelH);
 
-      const kernelV = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(1, Math.max(15, Math.floor(src.rows / 12)))
-      );
-      cv.erode(bin, vertical, kernelV);
-      cv.dilate(vertical, vertical, kernelV);
+        const kernelV = cv.getStructuringElement(
+          cv.MORPH_RECT,
+          new cv.Size(1, kernelVLength)
+        );
+        cv.erode(bin, vertical, kernelV);
+        cv.dilate(vertical, vertical, kernelV);
+
+        // 罫線全体の外接矩形を表領域とする
+        const mask = new cv.Mat();
+        cv.bitwise_or(horizontal, vertical, mask);
+
+        const contours = new cv.MatVector();
+        const hierarchy = new cv.Mat();
+        cv.findContours(
+          mask,
+          contours,
+          hierarchy,
+          cv.RETR_EXTERNAL,
+          cv.CHAIN_APPROX_SIMPLE
+        );
 
-      const mask = new cv.Mat();
-      cv.bitwise_and(horizontal, vertical, mask);
+        const isHorizontalLinePixel = createMaskPixelTest(
+          horizontal.data,
+          src.cols,
+          src.rows
+        );
+        const isVerticalLinePixel = createMaskPixelTest(
+          vertical.data,
+          src.cols,
+          src.rows
+        );
 
-      const kernelDilate = cv.getStructuringElement(
-        cv.MORPH_RECT,
-        new cv.Size(3, 3)
-      );
-      cv.dilate(mask, mask, kernelDilate);
-
-      const contours = new cv.MatVector();
-      const hierarchy = new cv.Mat();
-      cv.findContours(
-        mask,
-        contours,
-        hierarchy,
-        cv.RETR_EXTERNAL,
-        cv.CHAIN_APPROX_SIMPLE
-      );
+        for (let i = 0; i < contours.size(); i++) {
+          const cnt = contours.get(i);
+          const rect = cv.boundingRect(cnt);
+          cnt.delete();
+
+          if (rect.width < 50 || rect.height < 30) continue;
+
+          // 表領域内の罫線の位置からグリッドを復元
+          const horizontalLines = filterLines(
+            findLinePositions(
+              isHorizontalLinePixel,
+              'horizontal',
+              rect,
+              kernelHLength
+            ),
+            src.rows
+          );
+          const verticalLines = filterLines(
+            findLinePositions(
+              isVerticalLinePixel,
+              'vertical',
+              rect,
+              kernelVLength
+            ),
+            src.cols
+          );
 
-      for (let i = 0; i < contours.size(); i++) {
-        const cnt = contours.get(i);
-        const rect = cv.boundingRect(cnt);
-
-        if (
-          rect.width > 15 &&
-          rect.height > 15 &&
-          rect.width < src.cols * 0.5 &&
-          rect.height < src.rows * 0.5
-        ) {
-          console.log('[DEBUG] Cell detected:', rect);
-          const coords = imageCoordsToPDFPoints(
-            rect.x,
-            rect.y,
-            rect.width,
-            rect.height
+          const cells = createMergedCellsFromLines(
+            horizontalLines,
+            verticalLines,
+            isHorizontalLinePixel,
+            isVerticalLinePixel
+          );
+          const structure = createTableStructure(
+            `table-${Date.now()}-${i}`,
+            horizontalLines,
+            verticalLines,
+            cells,
+            toPDFPoints
           );
-          console.log('[DEBUG] Cell converted coords:', coords);
 
-          tableBoxes.push({
-            id: `cell-contour-${Date.now()}-${i}`,
-            x: coords.pt.x,
-            y: coords.pt.y,
-            width: coords.pt.width,
-            height: coords.pt.height,
-            unit: 'pt', // Always store in PDF points
-            kind: 'table',
-          });
+          if (structure) {
+            tables.push({ ...structure.table, dpi });
+            tableBoxes.push(...structure.boxes);
+          }
         }
-        cnt.delete();
-      }
 
-      // cleanup
-      horizontal.delete();
-      vertical.delete();
-      mask.delete();
-      contours.delete();
-      hierarchy.delete();
-      kernelH.delete();
-      kernelV.delete();
-      kernelDilate.delete();
-    }
+        // cleanup
+        horizontal.delete();
+        vertical.delete();
+        mask.delete();
+        contours.delete();
+        hierarchy.delete();
+        kernelH.delete();
+        kernelV.delete();
+      }
 
-    // Common cleanup
-    src.delete();
-    gray.delete();
-    bin.delete();
+      // Common cleanup
+      src.delete();
+      gray.delete();
+      bin.delete();
 
-    return tableBoxes;
-  }, [imageDataUrl, mode, selectedUnit]);
+      return { boxes: tableBoxes, tables };
+    }, [loadCorrectedImage, mode]);
 
   // フォールバック表検出（OpenCVなし）
-  const detectTablesFallback = useCallback(async (): Promise<BoundingBox[]> => {
-    if (!imageDataUrl)
-      throw new Error('No image available for table detection');
+  const detectTablesFallback =
+    useCallback(async (): Promise<TableDetectionResult> => {
+      const { img, dpi, toPDFPoints } = await loadCorrectedImage();
 
-    const img = document.querySelector('img') as HTMLImageElement;
-    if (!img) throw new Error('Image element not found');
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas context not available');
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Canvas context not available');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      ctx.drawImage(img, 0, 0);
 
-    canvas.width = img.naturalWidth;
-    canvas.height = img.naturalHeight;
-    ctx.drawImage(img, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imageData.data;
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
+      console.log(`[v0] Processing image: ${canvas.width}x${canvas.height}`);
 
-    console.log(`[v0] Processing image: ${canvas.width}x${canvas.height}`);
+      const horizontalLines = detectHorizontalLines(
+        data,
+        canvas.width,
+        canvas.height
+      );
+      const verticalLines = detectVerticalLines(
+        data,
+        canvas.width,
+        canvas.height
+      );
 
-    const horizontalLines = detectHorizontalLines(
-      data,
-      canvas.width,
-      canvas.height
-    );
-    const verticalLines = detectVerticalLines(
-      data,
-      canvas.width,
-      canvas.height
-    );
+      console.log(`[v0] Detected ${horizontalLines.length} horizontal lines`);
+      console.log(`[v0] Detected ${verticalLines.length} vertical lines`);
 
-    console.log(`[v0] Detected ${horizontalLines.length} horizontal lines`);
-    console.log(`[v0] Detected ${verticalLines.length} vertical lines`);
+      const tableBoxes: BoundingBox[] = [];
+      const tables: TableStructure[] = [];
 
-    const tableBoxes: BoundingBox[] = [];
+      if (horizontalLines.length >= 2 && verticalLines.length >= 2) {
+        const filteredHLines = filterLines(
+          collapseLineRuns(horizontalLines),
+          canvas.height
+        );
+        const filteredVLines = filterLines(
+          collapseLineRuns(verticalLines),
+          canvas.width
+        );
 
-    if (horizontalLines.length >= 2 && verticalLines.length >= 2) {
-      const filteredHLines = filterLines(horizontalLines, canvas.height);
-      const filteredVLines = filterLines(verticalLines, canvas.width);
+        console.log(
+          `[v0] Filtered to ${filteredHLines.length} horizontal, ${filteredVLines.length} vertical lines`
+        );
 
-      console.log(
-        `[v0] Filtered to ${filteredHLines.length} horizontal, ${filteredVLines.length} vertical lines`
-      );
+        if (mode === 'cells') {
+          const isLinePixel = createDarkPixelTest(
+            data,
+            canvas.width,
+            canvas.height
+          );
+          const cells = createMergedCellsFromLines(
+            filteredHLines,
+            filteredVLines,
+            isLinePixel,
+            isLinePixel
+          );
+          const structure = createTableStructure(
+            `table-${Date.now()}-0`,
+            filteredHLines,
+            filteredVLines,
+            cells,
+            toPDFPoints
+          );
+
+          if (structure) {
+            tables.push({ ...structure.table, dpi });
+            tableBoxes.push(...structure.boxes);
+          }
+        }
+      }
 
-      if (mode === 'cells') {
-        const cells = createCellsFromLines(
-          filteredHLines,
-          filteredVLines,
+      if (mode === 'table' || tableBoxes.length === 0) {
+        const tableRegions = detectTableRegions(
+          data,
           canvas.width,
           canvas.height
         );
-
-        cells.forEach((cell) => {
-          console.log('[DEBUG] Fallback cell detected:', cell);
-          const coords = imageCoordsToPDFPoints(
-            cell.x,
-            cell.y,
-            cell.width,
-            cell.height
+        tableRegions.forEach((region, index) => {
+          const coords = toPDFPoints(
+            region.x,
+            region.y,
+            region.width,
+            region.height
           );
-          console.log('[DEBUG] Fallback cell converted coords:', coords);
 
           tableBoxes.push({
-            id: `cell-${Date.now()}-${cell.row}-${cell.col}`,
+            id: `table-region-${Date.now()}-${index}`,
             x: coords.pt.x,
             y: coords.pt.y,
             width: coords.pt.width,
@@ -500,48 +624,81 @@ export const useTableDetection = (
           });
         });
       }
-    }
 
-    if (mode === 'table' || tableBoxes.length === 0) {
-      const tableRegions = detectTableRegions(
-        data,
-        canvas.width,
-        canvas.height
+      return { boxes: tableBoxes, tables };
+    }, [loadCorrectedImage, mode]);
+
+  // OCR単語の配置から罫線のない表を検出
+  const detectTablesFromWords =
+    useCallback(async (): Promise<TableDetectionResult> => {
+      if (!ocrTextData || ocrTextData.words.length === 0) {
+        console.warn('[v0] Borderless table detection requires OCR words');
+        return { boxes: [], tables: [] };
+      }
+
+      // 単語の画像座標はOCR実行時の解像度で変換する
+      const dpi = ocrTextData.dpi ?? imageDpi;
+      const toPDFPoints = (
+        x: number,
+        y: number,
+        width: number,
+        height: number
+      ) => imageCoordsToPDFPoints(x, y, width, height, dpi);
+
+      const grids = detectBorderlessTables(
+        ocrTextData.words.map((word) => word.bbox.original)
       );
-      tableRegions.forEach((region, index) => {
-        console.log('[DEBUG] Fallback table region detected:', region);
-        const coords = imageCoordsToPDFPoints(
-          region.x,
-          region.y,
-          region.width,
-          region.height
+      console.log(`[v0] Detected ${grids.length} borderless tables`);
+
+      const tableBoxes: BoundingBox[] = [];
+      const tables: TableStructure[] = [];
+
+      grids.forEach((grid, index) => {
+        const regionBox = convertTableRegionToBoundingBox(
+          grid.region,
+          toPDFPoints,
+          `table-region-${Date.now()}-${index}`,
+          'pt'
         );
-        console.log('[DEBUG] Fallback table region converted coords:', coords);
-
-        tableBoxes.push({
-          id: `table-region-${Date.now()}-${index}`,
-          x: coords.pt.x,
-          y: coords.pt.y,
-          width: coords.pt.width,
-          height: coords.pt.height,
-          unit: 'pt',
-          kind: 'table',
-        });
+        if (regionBox) tableBoxes.push(regionBox);
+
+        // 空白による区切りはすべて境界とみなすため、セルは結合しない
+        const isSeparator = () => true;
+        const cells = createMergedCellsFromLines(
+          grid.horizontalLines,
+          grid.verticalLines,
+          isSeparator,
+          isSeparator
+        );
+        const structure = createTableStructure(
+          `table-${Date.now()}-${index}`,
+          grid.horizontalLines,
+          grid.verticalLines,
+          cells,
+          toPDFPoints
+        );
+
+        if (structure) {
+          tables.push({ ...structure.table, dpi });
+          tableBoxes.push(...structure.boxes);
+        }
       });
-    }
 
-    return tableBoxes;
-  }, [imageDataUrl, mode, selectedUnit]);
+      return { boxes: tableBoxes, tables };
+    }, [ocrTextData, imageDpi]);
 
   // 表検出を実行
-  const detectTables = useCallback(async (): Promise<BoundingBox[]> => {
+  const detectTables = useCallback(async (): Promise<TableDetectionResult> => {
     console.log('[v0] Starting table detection...');
     console.log('[v0] cvLoaded:', cvLoaded, 'cvError:', cvError);
 
     setIsProcessing(true);
+    setDetectionError(null);
 
     try {
-      if (!cvLoaded || cvError || !window.cv) {
+      if (mode === 'borderless') {
+        return await detectTablesFromWords();
+      } else if (!cvLoaded || cvError || !window.cv) {
         console.log('[v0] OpenCV not available, using fallback method');
         return await detectTablesFallback();
       } else {
@@ -551,12 +708,19 @@ export const useTableDetection = (
       console.error('[v0] Table detection failed:', error);
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
-      setCvError(`表検出エラー: ${errorMessage}`);
+      setDetectionError(errorMessage);
       throw error;
     } finally {
       setIsProcessing(false);
     }
-  }, [cvLoaded, cvError, detectTablesWithOpenCV, detectTablesFallback]);
+  }, [
+    mode,
+    cvLoaded,
+    cvError,
+    detectTablesFromWords,
+    detectTablesWithOpenCV,
+    detectTablesFallback,
+  ]);
 
   return {
     mode,
@@ -565,6 +729,7 @@ export const useTableDetection = (
     cvLoaded,
     cvError,
     cvLoadingProgress,
+    detectionError,
     detectTables,
   };
 };
@@ -0,0 +1,281 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type {
+  OCRLanguage,
+  OCRProgress,
+  PageRotation,
+  TesseractEngineMode,
+} from '../utils/types';
+import {
+  VENDOR_ASSETS,
+  assertAssetAvailable,
+  loadScript,
+} from '../utils/vendorAssets';
+
+// Tesseract.js のワーカーのうち使用する部分
+interface TesseractWorker {
+  setParameters: (params: Record<string, string>) => Promise<unknown>;
+  recognize: (image: string) => Promise<{ data: unknown }>;
+  detect: (image: string) => Promise<{
+    data: {
+      orientation_degrees: number | null;
+      orientation_confidence: number | null;
+    };
+  }>;
+  terminate: () => Promise<unknown>;
+}
+
+// 言語セット・エンジンモードごとに作成済みのワーカー（作成中はPromiseのまま保持）
+type WorkerMap = Map<string, Promise<TesseractWorker>>;
+
+export interface RecognizeOptions {
+  language: OCRLanguage;
+  // エンジンモードはワーカーの作成時にしか指定できない
+  oem: TesseractEngineMode;
+  // 認識ごとに設定するTesseractのパラメータ
+  parameters: Record<string, string>;
+}
+
+// 同梱している学習データ
+const BUNDLED_LANGUAGES = ['eng', 'jpn', 'jpn_vert'];
+
+const LSTM_ONLY: TesseractEngineMode = 1;
+// 向き検出（OSD）はレガシーエンジンでのみ動作する
+const OSD_LANGUAGE = 'osd';
+const OSD_ENGINE_MODE: TesseractEngineMode = 0;
+
+export const OCR_CANCELLED_MESSAGE = 'OCR cancelled';
+
+export interface OrientationResult {
+  // 正立させるために必要な時計回りの回転
+  rotation: PageRotation;
+  confidence: number;
+}
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Tesseract.jsの初期化に失敗しました';
+
+// LSTMのみは軽量なbest_int、レガシーエンジンを使う場合は従来の学習データ
+const getLangPath = (oem: TesseractEngineMode): string =>
+  oem === LSTM_ONLY
+    ? VENDOR_ASSETS.tesseract.lang
+    : VENDOR_ASSETS.tesseract.legacyLang;
+
+interface QueuedJob {
+  workerKey: string;
+  // 中断時にジョブの呼び出し元へエラーを返す
+  reject: (error: Error) => void;
+}
+
+export const useTesseractWorker = () => {
+  const workersRef = useRef<WorkerMap>(new Map());
+  const activeJobRef = useRef<QueuedJob | null>(null);
+  // 実行待ちのジョブと、前のジョブの完了を待つためのキュー
+  const pendingJobsRef = useRef<QueuedJob[]>([]);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const onProgressRef = useRef<((progress: number) => void) | null>(null);
+  const [progress, setProgress] = useState<OCRProgress | null>(null);
+  // エンジン・学習データの読み込みに失敗した場合のエラー
+  const [error, setError] = useState<string | null>(null);
+
+  // ワーカーを終了してマップから除く
+  const terminateWorker = useCallback((workerKey: string) => {
+    const worker = workersRef.current.get(workerKey);
+    if (!worker) return;
+    workersRef.current.delete(workerKey);
+    worker
+      .then((instance) => instance.terminate())
+      .catch((error: unknown) => {
+        console.error('[v0] Failed to terminate Tesseract worker:', error);
+      });
+  }, []);
+
+  // 言語セット・エンジンモードのワーカーを取得（なければ作成して以後再利用）
+  const getWorker = useCallback(
+    (
+      language: OCRLanguage | typeof OSD_LANGUAGE,
+      oem: TesseractEngineMode
+    ): Promise<TesseractWorker> => {
+      const workerKey = `${language}:${oem}`;
+      const existing = workersRef.current.get(workerKey);
+      if (existing) return existing;
+
+      console.log(`[v0] Creating Tesseract worker for ${workerKey}`);
+      const worker: Promise<TesseractWorker> = loadScript(
+        VENDOR_ASSETS.tesseract.script
+      ).then(() =>
+        window.Tesseract.createWorker(language, oem, {
+          workerPath: VENDOR_ASSETS.tesseract.worker,
+          corePath: VENDOR_ASSETS.tesseract.core,
+          langPath: getLangPath(oem),
+          workerBlobURL: false,
+          gzip: true,
+          logger: (m: { status: string; progress?: number }) => {
+            // 認識の完了後に届いたログは無視する
+            if (!activeJobRef.current) return;
+            setProgress({ status: m.status, progress: m.progress ?? 0 });
+            if (m.status === 'recognizing text') {
+              onProgressRef.current?.(m.progress ?? 0);
+            }
+          },
+        })
+      );
+      workersRef.current.set(workerKey, worker);
+
+      // 作成に失敗したワーカーは次回作り直す
+      worker.catch((workerError: unknown) => {
+        if (workersRef.current.get(workerKey) === worker) {
+          workersRef.current.delete(workerKey);
+        }
+        setError(toErrorMessage(workerError));
+      });
+      return worker;
+    },
+    []
+  );
+
+  // ワーカーで処理を実行（キューに積み、前のジョブが終わってから1件ずつ実行する）
+  // cancelで実行中と実行待ちのジョブをすべて中断できる
+  const runJob = useCallback(
+    <T>(
+      language: OCRLanguage | typeof OSD_LANGUAGE,
+      oem: TesseractEngineMode,
+      job: (worker: TesseractWorker) => Promise<T>,
+      onProgress?: (progress: number) => void
+    ): Promise<T> =>
+      new Promise<T>((resolve, reject) => {
+        const queuedJob: QueuedJob = {
+          workerKey: `${language}:${oem}`,
+          reject,
+        };
+        pendingJobsRef.current.push(queuedJob);
+
+        const start = () => {
+          // 待機中に中断されたジョブは実行しない
+          const index = pendingJobsRef.current.indexOf(queuedJob);
+          if (index < 0) return;
+          pendingJobsRef.current.splice(index, 1);
+
+          activeJobRef.current = queuedJob;
+          onProgressRef.current = onProgress ?? null;
+          setProgress({ status: 'starting', progress: 0 });
+
+          // 中断したワーカーの処理は完了しないことがあるため、中断でも次のジョブに進む
+          return new Promise<void>((done) => {
+            queuedJob.reject = (error) => {
+              reject(error);
+              done();
+            };
+            getWorker(language, oem)
+              .then(job)
+              .then(resolve, reject)
+              .finally(done);
+          }).finally(() => {
+            if (activeJobRef.current !== queuedJob) return;
+            activeJobRef.current = null;
+            onProgressRef.current = null;
+            setProgress(null);
+          });
+        };
+        queueRef.current = queueRef.current.then(start);
+      }),
+    [getWorker]
+  );
+
+  // 画像を認識
+  const recognize = useCallback(
+    (
+      image: string,
+      { language, oem, parameters }: RecognizeOptions,
+      onProgress?: (progress: number) => void
+    ): Promise<{ data: unknown }> =>
+      runJob(
+        language,
+        oem,
+        async (worker) => {
+          // ワーカーは再利用するため、前回の設定が残らないよう毎回すべて設定する
+          await worker.setParameters(parameters);
+          return worker.recognize(image);
+        },
+        onProgress
+      ),
+    [runJob]
+  );
+
+  // ページの向き（90度単位）を検出
+  const detectOrientation = useCallback(
+    async (image: string): Promise<OrientationResult> => {
+      const { data } = await runJob(OSD_LANGUAGE, OSD_ENGINE_MODE, (worker) =>
+        worker.detect(image)
+      );
+      const degrees = data.orientation_degrees ?? 0;
+      return {
+        rotation: ([0, 90, 180, 270] as PageRotation[]).includes(
+          degrees as PageRotation
+        )
+          ? (degrees as PageRotation)
+          : 0,
+        confidence: data.orientation_confidence ?? 0,
+      };
+    },
+    [runJob]
+  );
+
+  // 実行中と実行待ちの認識を中断（実行中のワーカーは終了し、次回の認識時に作り直す）
+  const cancel = useCallback(() => {
+    const job = activeJobRef.current;
+    const pendingJobs = pendingJobsRef.current.splice(0);
+    if (!job && pendingJobs.length === 0) return;
+
+    activeJobRef.current = null;
+    onProgressRef.current = null;
+    setProgress(null);
+    if (job) terminateWorker(job.workerKey);
+    [...(job ? [job] : []), ...pendingJobs].forEach((cancelledJob) =>
+      cancelledJob.reject(new Error(OCR_CANCELLED_MESSAGE))
+    );
+    console.log('[v0] OCR cancelled');
+  }, [terminateWorker]);
+
+  // エンジンと学習データが配信されているかを先に確認する
+  useEffect(() => {
+    Promise.all([
+      loadScript(VENDOR_ASSETS.tesseract.script),
+      assertAssetAvailable(VENDOR_ASSETS.tesseract.worker),
+      assertAssetAvailable(
+        `${VENDOR_ASSETS.tesseract.core}/tesseract-core-lstm.wasm.js`
+      ),
+      ...[VENDOR_ASSETS.tesseract.lang, VENDOR_ASSETS.tesseract.legacyLang]
+        .flatMap((langPath) =>
+          BUNDLED_LANGUAGES.map((lang) => `${langPath}/${lang}.traineddata.gz`)
+        )
+        .map(assertAssetAvailable),
+      assertAssetAvailable(
+        `${VENDOR_ASSETS.tesseract.legacyLang}/${OSD_LANGUAGE}.traineddata.gz`
+      ),
+    ])
+      .then(() => {
+        setError(null);
+        console.log('[v0] Tesseract.js loaded successfully');
+      })
+      .catch((assetError: unknown) => {
+        console.error('[v0] Failed to load Tesseract.js assets:', assetError);
+        setError(toErrorMessage(assetError));
+      });
+  }, []);
+
+  // アンマウント時にすべてのワーカーを終了
+  useEffect(() => {
+    const workers = workersRef.current;
+    return () => {
+      Array.from(workers.keys()).forEach(terminateWorker);
+    };
+  }, [terminateWorker]);
+
+  return {
+    recognize,
+    detectOrientation,
+    cancel,
+    progress,
+    error,
+  };
+};
@@ -0,0 +1,239 @@
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+} from 'react';
+import type { ViewerFitMode } from '../utils/types';
+import type { Dimensions } from '../utils/coordinateConversion';
+
+// 表示倍率（画像1pxあたりの表示px）の範囲
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+// ボタン1回・ホイール1ノッチ（deltaY=100）あたりの倍率
+const ZOOM_STEP = 1.25;
+const WHEEL_ZOOM_STEP = 1.1;
+// 行単位のホイール（Firefox）をピクセルに換算
+const WHEEL_LINE_HEIGHT = 33;
+
+const clampZoom = (zoom: number): number =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// ズームの前後でビューア内の同じ位置に同じ画像位置を表示するための基準
+interface ZoomAnchor {
+  imageX: number;
+  imageY: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface PanState {
+  clientX: number;
+  clientY: number;
+  scrollLeft: number;
+  scrollTop: number;
+}
+
+export const useViewerZoom = (imageSize: Dimensions | null) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const [fitMode, setFitMode] = useState<ViewerFitMode | null>('width');
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const anchorRef = useRef<ZoomAnchor | null>(null);
+  const panRef = useRef<PanState | null>(null);
+
+  // 画像の表示サイズは整数pxにする（clientWidth/clientHeight と一致させ、座標変換を正確に保つ）
+  const displaySize = imageSize
+    ? {
+        width: Math.max(1, Math.floor(imageSize.width * zoom + 1e-6)),
+        height: Math.max(1, Math.floor(imageSize.height * zoom + 1e-6)),
+      }
+    : null;
+
+  // 指定した位置（省略時はビューアの中央）を基準にズーム
+  const zoomTo = useCallback(
+    (nextZoom: number, clientPoint?: { clientX: number; clientY: number }) => {
+      const viewport = viewportRef.current;
+      if (viewport) {
+        const rect = viewport.getBoundingClientRect();
+        const offsetX = clientPoint
+          ? clientPoint.clientX - rect.left
+          : viewport.clientWidth / 2;
+        const offsetY = clientPoint
+          ? clientPoint.clientY - rect.top
+          : viewport.clientHeight / 2;
+        anchorRef.current = {
+          imageX: (viewport.scrollLeft + offsetX) / zoom,
+          imageY: (viewport.scrollTop + offsetY) / zoom,
+          offsetX,
+          offsetY,
+        };
+      }
+      setZoom(clampZoom(nextZoom));
+    },
+    [zoom]
+  );
+
+  const zoomIn = useCallback(() => {
+    setFitMode(null);
+    zoomTo(zoom * ZOOM_STEP);
+  }, [zoom, zoomTo]);
+
+  const zoomOut = useCallback(() => {
+    setFitMode(null);
+    zoomTo(zoom / ZOOM_STEP);
+  }, [zoom, zoomTo]);
+
+  // 画像1pxを表示1pxで表示
+  const zoomToActualSize = useCallback(() => {
+    setFitMode(null);
+    zoomTo(1);
+  }, [zoomTo]);
+
+  const fitWidth = useCallback(() => setFitMode('width'), []);
+  const fitPage = useCallback(() => setFitMode('page'), []);
+
+  // 合わせ方が指定されている間は、ビューアの大きさに合わせて倍率を更新
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!fitMode || !imageSize || !viewport) return;
+
+    const fit = () => {
+      const scaleX = viewport.clientWidth / imageSize.width;
+      const scaleY = viewport.clientHeight / imageSize.height;
+      anchorRef.current = null;
+      setZoom(
+        clampZoom(fitMode === 'width' ? scaleX : Math.min(scaleX, scaleY))
+      );
+    };
+
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [fitMode, imageSize]);
+
+  // 再描画後、基準の画像位置が元の表示位置に来るようにスクロール
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    const anchor = anchorRef.current;
+    anchorRef.current = null;
+    if (!viewport || !anchor) return;
+
+    viewport.scrollLeft = anchor.imageX * zoom - anchor.offsetX;
+    viewport.scrollTop = anchor.imageY * zoom - anchor.offsetY;
+  }, [zoom]);
+
+  // 通常のホイールはスクロール（パン）、Ctrl/⌘+ホイールはカーソル位置を基準にズーム
+  // ブラウザのズームを止めるため passive: false で登録する
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+
+      const deltaY =
+        event.deltaMode === WheelEvent.DOM_DELTA_LINE
+          ? event.deltaY * WHEEL_LINE_HEIGHT
+          : event.deltaY;
+      setFitMode(null);
+      zoomTo(zoom * Math.pow(WHEEL_ZOOM_STEP, -deltaY / 100), event);
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoom, zoomTo, imageSize]);
+
+  // スペースキーを押している間は左ドラッグでパン
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space') return;
+      // フォームやボタンでのスペースキーはそのまま使う
+      const target = event.target as Node | null;
+      if (target !== document.body && !viewportRef.current?.contains(target)) {
+        return;
+      }
+      event.preventDefault();
+      setIsSpacePressed(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setIsSpacePressed(false);
+    };
+    const handleBlur = () => setIsSpacePressed(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // 中ボタン、またはスペースキー+左ボタンのドラッグでパンを開始
+  // キャプチャ段階で止め、ボックスの描画・編集を始めないようにする
+  const handlePanStart = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      const viewport = viewportRef.current;
+      const isPanButton =
+        event.button === 1 || (event.button === 0 && isSpacePressed);
+      if (!viewport || !isPanButton) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      panRef.current = {
+        clientX: event.clientX,
+        clientY: event.clientY,
+        scrollLeft: viewport.scrollLeft,
+        scrollTop: viewport.scrollTop,
+      };
+      setIsPanning(true);
+    },
+    [isSpacePressed]
+  );
+
+  // ビューアの外に出てもドラッグを追えるよう window で受ける
+  useEffect(() => {
+    if (!isPanning) return;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const viewport = viewportRef.current;
+      const pan = panRef.current;
+      if (!viewport || !pan) return;
+
+      viewport.scrollLeft = pan.scrollLeft - (event.clientX - pan.clientX);
+      viewport.scrollTop = pan.scrollTop - (event.clientY - pan.clientY);
+    };
+    const handleMouseUp = () => {
+      panRef.current = null;
+      setIsPanning(false);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isPanning]);
+
+  return {
+    viewportRef,
+    zoom,
+    fitMode,
+    displaySize,
+    isSpacePressed,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    zoomToActualSize,
+    fitWidth,
+    fitPage,
+    handlePanStart,
+  };
+};
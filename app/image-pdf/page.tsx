@@ -1,6 +1,12 @@
 'use client';
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import {
@@ -10,18 +16,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Download, Trash2 } from 'lucide-react';
+import { Download, Redo2, Trash2, Undo2, Upload } from 'lucide-react';
 
 // Import components
 import { UploadSection } from './components/UploadSection';
 import { PDFViewer } from './components/PDFViewer';
+import { PageCorrectionControls } from './components/PageCorrectionControls';
+import { PreprocessingPanel } from './components/PreprocessingPanel';
 import { OCRSettingsComponent } from './components/OCRSettings';
+import { BatchOCRControls } from './components/BatchOCRControls';
+import { RegionOCRControls } from './components/RegionOCRControls';
 import { TableDetectionControls } from './components/TableDetectionControls';
 import { BoundingBoxesList } from './components/BoundingBoxesList';
 
 // Import hooks
 import { usePDF } from './hooks/usePDF';
 import { useOCR } from './hooks/useOCR';
+import { usePreprocessing } from './hooks/usePreprocessing';
 import { useBoundingBoxes } from './hooks/useBoundingBoxes';
 import { useTableDetection } from './hooks/useTableDetection';
 
@@ -29,47 +40,155 @@ import { useTableDetection } from './hooks/useTableDetection';
 import {
   exportBoundingBoxes,
   exportOCRTextData,
+  exportZonalValues,
+  exportPdfmeTemplate,
+  exportSearchablePDF,
+  exportOCRFormat,
+  exportTable,
 } from './actions/exportActions';
+import { importOCRFile } from './actions/importActions';
+
+// Import utils
+import { fillTableWithOCRText } from './utils/tableText';
+import { isZonalBox } from './utils/zonalOcr';
+import { getFieldNamesById } from './utils/boxFields';
+import {
+  UNITS,
+  UNIT_LABELS,
+  convertToUnits,
+} from './utils/coordinateConversion';
+import {
+  applyBoxEdit,
+  findSmallestRectAt,
+  type EditRect,
+} from './utils/boxEditing';
 
 // Import types
-import type { Point, BoundingBox } from './utils/types';
+import type {
+  Point,
+  BoundingBox,
+  BoxEditHandle,
+  BoxField,
+  CoordinateOrigin,
+  TableExportFormat,
+  TableStructure,
+  Unit,
+} from './utils/types';
+
+// キー操作を入力欄に任せるべきかを判定
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (element.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName))
+  );
+};
 
 export default function ImagePDFTool() {
   // Refs
   const imageRef = useRef<HTMLImageElement>(null);
+  const ocrImportInputRef = useRef<HTMLInputElement>(null);
 
   // Drawing state
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentBox, setCurrentBox] = useState<BoundingBox | null>(null);
-  const [selectedUnit, setSelectedUnit] = useState<'px' | 'mm' | 'pt'>('px');
+  const [selectedUnit, setSelectedUnit] = useState<Unit>('px');
+  const [coordinateOrigin, setCoordinateOrigin] =
+    useState<CoordinateOrigin>('top-left');
+
+  // Selection / editing state
+  const [selectedBoxId, setSelectedBoxId] = useState<string | null>(null);
+  const [boxEdit, setBoxEdit] = useState<{
+    boxId: string;
+    handle: BoxEditHandle;
+    startPoint: Point;
+    startRect: EditRect;
+  } | null>(null);
+  const [editingBox, setEditingBox] = useState<BoundingBox | null>(null);
 
   // Custom hooks
   const {
     pdfInfo,
+    pdfjsError,
     changePage,
+    changeRenderDpi,
+    renderPageToImage,
     convertDisplayToPDF,
+    convertPDFToDisplay,
     imageCoordsToPDFPoints,
     handleFileDrop,
     handleFileInput,
   } = usePDF();
 
+  const {
+    steps: preprocessingSteps,
+    presets: preprocessingPresets,
+    activePresetName: activePreprocessingPreset,
+    previewUrl: preprocessingPreviewUrl,
+    isPreviewing: isPreprocessingPreviewing,
+    addStep: addPreprocessingStep,
+    updateStep: updatePreprocessingStep,
+    removeStep: removePreprocessingStep,
+    moveStep: movePreprocessingStep,
+    applyPreset: applyPreprocessingPreset,
+    savePreset: savePreprocessingPreset,
+    deletePreset: deletePreprocessingPreset,
+    preprocessImage,
+  } = usePreprocessing(pdfInfo.imageDataUrl);
+
   const {
     settings: ocrSettings,
+    regionSettings: regionOCRSettings,
+    correctionSettings: pageCorrectionSettings,
+    lastTransform: lastPageTransform,
     textData: ocrTextData,
+    textDataByPage: ocrTextDataByPage,
     isProcessing: isOcrProcessing,
+    progress: ocrProgress,
+    engineError: ocrEngineError,
+    batchProgress: batchOcrProgress,
     performOCR,
+    performRegionOCR,
+    performBatchOCR,
+    cancelBatchOCR,
+    cancelOCR,
+    importTextData: importOCRTextData,
     generateBoundingBoxes,
     updateSettings: updateOCRSettings,
-  } = useOCR(pdfInfo.imageDataUrl, convertDisplayToPDF, imageCoordsToPDFPoints);
+    updateRegionSettings: updateRegionOCRSettings,
+    updateCorrectionSettings: updatePageCorrectionSettings,
+    correctPageImage,
+  } = useOCR(
+    pdfInfo.imageDataUrl,
+    pdfInfo.currentPage,
+    pdfInfo.document,
+    convertDisplayToPDF,
+    imageCoordsToPDFPoints,
+    preprocessImage,
+    pdfInfo.imageDpi
+  );
 
   const {
     boundingBoxes,
+    allBoundingBoxes,
+    tables,
     addBoundingBoxes,
+    replaceTables,
+    removeBoundingBox,
+    updateBoundingBox,
     clearBoundingBoxes,
+    clearAllBoundingBoxes,
+    resetBoundingBoxes,
     removeBoundingBoxesByKind,
+    replaceBoundingBoxesByKind,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     getBoundingBoxesStats,
-  } = useBoundingBoxes();
+  } = useBoundingBoxes(pdfInfo.currentPage);
 
   const {
     mode: tableDetectionMode,
@@ -78,11 +197,66 @@ export default function ImagePDFTool() {
     cvLoaded,
     cvError,
     cvLoadingProgress,
+    detectionError: tableDetectionError,
     detectTables,
   } = useTableDetection(
     pdfInfo.imageDataUrl,
+    pdfInfo.currentPage,
     convertDisplayToPDF,
-    selectedUnit
+    ocrTextData,
+    correctPageImage,
+    preprocessImage,
+    pdfInfo.imageDpi
+  );
+
+  // バッチOCR中の進捗はBatchOCRControls側で表示する
+  const singlePageOcrProgress =
+    batchOcrProgress?.currentPage != null ? null : ocrProgress;
+
+  const selectedBox = useMemo(
+    () => boundingBoxes.find((box) => box.id === selectedBoxId) || null,
+    [boundingBoxes, selectedBoxId]
+  );
+
+  // 境界ボックスの表示座標（ptに換算してから変換）
+  const getBoxDisplayRect = useCallback(
+    (box: BoundingBox): EditRect | null =>
+      convertPDFToDisplay(
+        convertToUnits(box.x, box.unit, 'pt'),
+        convertToUnits(box.y, box.unit, 'pt'),
+        convertToUnits(box.width, box.unit, 'pt'),
+        convertToUnits(box.height, box.unit, 'pt')
+      ),
+    [convertPDFToDisplay]
+  );
+
+  // Box editing handlers
+  const handleBoxEditStart = useCallback(
+    (
+      event: React.MouseEvent<HTMLDivElement>,
+      box: BoundingBox,
+      handle: BoxEditHandle
+    ) => {
+      // 新しいボックスの描画を開始しないよう親への伝播を止める
+      event.stopPropagation();
+      event.preventDefault();
+
+      const imageRect = imageRef.current?.getBoundingClientRect();
+      const startRect = getBoxDisplayRect(box);
+      if (!imageRect || !startRect) return;
+
+      setSelectedBoxId(box.id);
+      setBoxEdit({
+        boxId: box.id,
+        handle,
+        startPoint: {
+          x: event.clientX - imageRect.left,
+          y: event.clientY - imageRect.top,
+        },
+        startRect,
+      });
+    },
+    [getBoxDisplayRect]
   );
 
   // Drawing event handlers
@@ -105,33 +279,88 @@ export default function ImagePDFTool() {
 
   const handleMouseMove = useCallback(
     (event: React.MouseEvent<HTMLDivElement>) => {
-      if (!isDrawing || !startPoint) return;
-
       const container = event.currentTarget;
       const rect = container.getBoundingClientRect();
       const currentX = event.clientX - rect.left;
       const currentY = event.clientY - rect.top;
 
+      // 選択中のボックスの移動・リサイズ
+      if (boxEdit) {
+        const box = boundingBoxes.find((b) => b.id === boxEdit.boxId);
+        const next = applyBoxEdit(
+          boxEdit.startRect,
+          boxEdit.handle,
+          currentX - boxEdit.startPoint.x,
+          currentY - boxEdit.startPoint.y
+        );
+        const coords = convertDisplayToPDF(
+          next.x,
+          next.y,
+          next.width,
+          next.height,
+          imageRef.current || undefined
+        );
+        if (box && coords) {
+          setEditingBox({
+            ...box,
+            x: coords.pt.x,
+            y: coords.pt.y,
+            width: coords.pt.width,
+            height: coords.pt.height,
+            unit: 'pt',
+          });
+        }
+        return;
+      }
+
+      if (!isDrawing || !startPoint) return;
+
       const width = Math.abs(currentX - startPoint.x);
       const height = Math.abs(currentY - startPoint.y);
       const boxX = Math.min(currentX, startPoint.x);
       const boxY = Math.min(currentY, startPoint.y);
 
+      // 確定時と同じ変換でptにしておく（表示倍率に関係なく同じ位置に表示される）
+      const coords = convertDisplayToPDF(
+        boxX,
+        boxY,
+        width,
+        height,
+        imageRef.current || undefined
+      );
+      if (!coords) return;
+
       setCurrentBox({
         id: `temp-${Date.now()}`,
-        x: boxX,
-        y: boxY,
-        width: width,
-        height: height,
-        unit: selectedUnit,
+        x: coords.pt.x,
+        y: coords.pt.y,
+        width: coords.pt.width,
+        height: coords.pt.height,
+        unit: 'pt',
       });
     },
-    [isDrawing, startPoint, selectedUnit]
+    [boxEdit, boundingBoxes, convertDisplayToPDF, isDrawing, startPoint]
   );
 
   const handleMouseUp = useCallback(
     (event: React.MouseEvent<HTMLDivElement>) => {
-      if (!isDrawing || !startPoint || !currentBox) return;
+      // 移動・リサイズの確定（ドラッグ中は履歴に積まず、離した時点で1回だけ更新）
+      if (boxEdit) {
+        if (editingBox) {
+          updateBoundingBox(editingBox.id, {
+            x: editingBox.x,
+            y: editingBox.y,
+            width: editingBox.width,
+            height: editingBox.height,
+            unit: 'pt',
+          });
+        }
+        setBoxEdit(null);
+        setEditingBox(null);
+        return;
+      }
+
+      if (!isDrawing || !startPoint) return;
 
       const container = event.currentTarget;
       const rect = container.getBoundingClientRect();
@@ -178,52 +407,322 @@ export default function ImagePDFTool() {
         };
 
         addBoundingBoxes([newBox]);
+        setSelectedBoxId(newBox.id);
+      } else if (width <= 5 && height <= 5) {
+        // クリックは最も小さい重なったボックスを選択（何もなければ選択解除）
+        const hit = findSmallestRectAt(
+          boundingBoxes.flatMap((box) => {
+            const displayRect = getBoxDisplayRect(box);
+            return displayRect ? [{ ...displayRect, id: box.id }] : [];
+          }),
+          currentX,
+          currentY
+        );
+        setSelectedBoxId(hit ? hit.id : null);
       }
 
       setIsDrawing(false);
       setStartPoint(null);
       setCurrentBox(null);
     },
-    [isDrawing, startPoint, currentBox, convertDisplayToPDF, addBoundingBoxes]
+    [
+      boxEdit,
+      editingBox,
+      updateBoundingBox,
+      isDrawing,
+      startPoint,
+      convertDisplayToPDF,
+      addBoundingBoxes,
+      boundingBoxes,
+      getBoxDisplayRect,
+    ]
   );
 
+  // Reset bounding boxes when a new PDF is loaded
+  useEffect(() => {
+    resetBoundingBoxes();
+  }, [pdfInfo.file, resetBoundingBoxes]);
+
+  // Undo / Redo shortcuts (Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // 入力欄での操作はブラウザ標準の取り消しに任せる
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Clear the selection when the page changes
+  useEffect(() => {
+    setSelectedBoxId(null);
+  }, [pdfInfo.currentPage]);
+
+  // Selected box shortcuts (arrow keys nudge in the selected unit, Delete removes)
+  useEffect(() => {
+    if (!selectedBox) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        removeBoundingBox(selectedBox.id);
+        setSelectedBoxId(null);
+        return;
+      }
+      if (event.key === 'Escape') {
+        setSelectedBoxId(null);
+        return;
+      }
+
+      // Shiftキーで10単位ずつ移動
+      const step = convertToUnits(event.shiftKey ? 10 : 1, selectedUnit, 'pt');
+      const offsets: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+      const offset = offsets[event.key];
+      if (!offset) return;
+
+      event.preventDefault();
+      updateBoundingBox(selectedBox.id, {
+        x: convertToUnits(selectedBox.x, selectedBox.unit, 'pt') + offset[0],
+        y: convertToUnits(selectedBox.y, selectedBox.unit, 'pt') + offset[1],
+        width: convertToUnits(selectedBox.width, selectedBox.unit, 'pt'),
+        height: convertToUnits(selectedBox.height, selectedBox.unit, 'pt'),
+        unit: 'pt',
+      });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedBox, selectedUnit, removeBoundingBox, updateBoundingBox]);
+
   // Event handlers
   const handlePerformOCR = useCallback(async () => {
     if (!pdfInfo.imageDataUrl) return;
-    await performOCR();
-    // Note: OCR results will be automatically added via useEffect below
-  }, [performOCR, pdfInfo.imageDataUrl]);
-
-  // Automatically generate bounding boxes when OCR text data is updated
-  useEffect(() => {
-    if (ocrTextData && ocrTextData.words && ocrTextData.words.length > 0) {
-      const boxes = generateBoundingBoxes('pt');
-      addBoundingBoxes(boxes);
+    const page = pdfInfo.currentPage;
+    const data = await performOCR();
+    // OCRを開始したページのOCRボックスを置き換える（再実行しても重複しない）
+    if (data) {
+      replaceBoundingBoxesByKind(
+        'ocr',
+        generateBoundingBoxes('pt', data),
+        page
+      );
     }
-  }, [ocrTextData, generateBoundingBoxes, addBoundingBoxes]);
+  }, [
+    performOCR,
+    generateBoundingBoxes,
+    replaceBoundingBoxesByKind,
+    pdfInfo.imageDataUrl,
+    pdfInfo.currentPage,
+  ]);
+
+  // 選択中のボックスの範囲だけをOCRし、範囲内のOCRボックスを置き換える
+  const handlePerformRegionOCR = useCallback(async () => {
+    if (!selectedBox) return;
+    const page = pdfInfo.currentPage;
+    const region = {
+      x: convertToUnits(selectedBox.x, selectedBox.unit, 'pt'),
+      y: convertToUnits(selectedBox.y, selectedBox.unit, 'pt'),
+      width: convertToUnits(selectedBox.width, selectedBox.unit, 'pt'),
+      height: convertToUnits(selectedBox.height, selectedBox.unit, 'pt'),
+    };
+    const data = await performRegionOCR(region);
+    if (!data) return;
+
+    const isInsideRegion = (box: BoundingBox) => {
+      const centerX = box.x + box.width / 2;
+      const centerY = box.y + box.height / 2;
+      return (
+        centerX >= region.x &&
+        centerX <= region.x + region.width &&
+        centerY >= region.y &&
+        centerY <= region.y + region.height
+      );
+    };
+    replaceBoundingBoxesByKind(
+      'ocr',
+      [
+        ...boundingBoxes.filter(
+          (box) => box.kind === 'ocr' && !isInsideRegion(box)
+        ),
+        ...generateBoundingBoxes('pt', data, regionOCRSettings.level),
+      ],
+      page
+    );
+  }, [
+    selectedBox,
+    boundingBoxes,
+    performRegionOCR,
+    generateBoundingBoxes,
+    replaceBoundingBoxesByKind,
+    regionOCRSettings.level,
+    pdfInfo.currentPage,
+  ]);
+
+  const handleBatchOCR = useCallback(
+    async (fromPage: number, toPage: number) => {
+      const pages = Array.from(
+        { length: toPage - fromPage + 1 },
+        (_, i) => fromPage + i
+      );
+      await performBatchOCR(pages, renderPageToImage, (page, data) => {
+        replaceBoundingBoxesByKind(
+          'ocr',
+          generateBoundingBoxes('pt', data),
+          page
+        );
+      });
+    },
+    [
+      performBatchOCR,
+      renderPageToImage,
+      generateBoundingBoxes,
+      replaceBoundingBoxesByKind,
+    ]
+  );
 
   const handleDetectTables = useCallback(async () => {
-    const boxes = await detectTables();
-    addBoundingBoxes(boxes);
-  }, [detectTables, addBoundingBoxes]);
-
-  const handleExportBoundingBoxes = useCallback(() => {
-    exportBoundingBoxes(boundingBoxes, pdfInfo, {
-      language: ocrSettings.language,
-      level: ocrSettings.level,
-      minConfidence: ocrSettings.minConfidence,
-      enhanceImage: ocrSettings.enhanceImage,
-    });
-  }, [boundingBoxes, pdfInfo, ocrSettings]);
+    const page = pdfInfo.currentPage;
+    try {
+      const { boxes, tables: detectedTables } = await detectTables();
+      replaceTables(detectedTables, boxes, page);
+    } catch {
+      // エラーは表検出の操作欄に表示される（detectionError）
+    }
+  }, [detectTables, replaceTables, pdfInfo.currentPage]);
+
+  // 一覧とエクスポートで同じフィールド名を表示する
+  const fieldNames = useMemo(
+    () => getFieldNamesById(allBoundingBoxes),
+    [allBoundingBoxes]
+  );
+
+  // 表のセルにOCRの単語を割り当てる
+  const filledTables = useMemo(
+    () => tables.map((table) => fillTableWithOCRText(table, ocrTextData)),
+    [tables, ocrTextData]
+  );
+
+  const handleExportTable = useCallback(
+    async (
+      table: TableStructure,
+      tableIndex: number,
+      format: TableExportFormat
+    ) => {
+      await exportTable(table, tableIndex, pdfInfo, format);
+    },
+    [pdfInfo]
+  );
+
+  // ボックスのフィールド情報を更新
+  const handleUpdateField = useCallback(
+    (boxId: string, field: BoxField) => {
+      updateBoundingBox(boxId, { field });
+    },
+    [updateBoundingBox]
+  );
+
+  const handleExportBoundingBoxes = useCallback(async () => {
+    await exportBoundingBoxes(
+      allBoundingBoxes,
+      pdfInfo,
+      ocrSettings,
+      preprocessingSteps,
+      coordinateOrigin
+    );
+  }, [
+    allBoundingBoxes,
+    pdfInfo,
+    ocrSettings,
+    preprocessingSteps,
+    coordinateOrigin,
+  ]);
+
+  const handleExportPdfmeTemplate = useCallback(async () => {
+    await exportPdfmeTemplate(allBoundingBoxes, pdfInfo);
+  }, [allBoundingBoxes, pdfInfo]);
 
   const handleExportOCRText = useCallback(() => {
-    exportOCRTextData(ocrTextData, pdfInfo, {
-      language: ocrSettings.language,
-      level: ocrSettings.level,
-      minConfidence: ocrSettings.minConfidence,
-      enhanceImage: ocrSettings.enhanceImage,
-    });
-  }, [ocrTextData, pdfInfo, ocrSettings]);
+    exportOCRTextData(ocrTextData, pdfInfo, ocrSettings, preprocessingSteps);
+  }, [ocrTextData, pdfInfo, ocrSettings, preprocessingSteps]);
+
+  const handleExportZonalValues = useCallback(() => {
+    exportZonalValues(allBoundingBoxes, ocrTextDataByPage, pdfInfo);
+  }, [allBoundingBoxes, ocrTextDataByPage, pdfInfo]);
+
+  const handleExportSearchablePDF = useCallback(async () => {
+    await exportSearchablePDF(ocrTextDataByPage, pdfInfo);
+  }, [ocrTextDataByPage, pdfInfo]);
+
+  const handleExportHOCR = useCallback(async () => {
+    await exportOCRFormat(ocrTextDataByPage, pdfInfo, 'hocr');
+  }, [ocrTextDataByPage, pdfInfo]);
+
+  const handleExportALTO = useCallback(async () => {
+    await exportOCRFormat(ocrTextDataByPage, pdfInfo, 'alto');
+  }, [ocrTextDataByPage, pdfInfo]);
+
+  const handleImportOCRFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const dataByPage = await importOCRFile(
+          file,
+          pdfInfo,
+          imageCoordsToPDFPoints
+        );
+        importOCRTextData(dataByPage);
+
+        // 取り込んだページのOCRボックスを置き換えて表示
+        Object.entries(dataByPage).forEach(([page, data]) => {
+          replaceBoundingBoxesByKind(
+            'ocr',
+            generateBoundingBoxes('pt', data),
+            Number(page)
+          );
+        });
+      } catch (error: unknown) {
+        console.error('[v0] OCR import failed:', error);
+        alert(
+          `hOCR / ALTO の読み込みに失敗しました: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    },
+    [
+      pdfInfo,
+      imageCoordsToPDFPoints,
+      importOCRTextData,
+      replaceBoundingBoxesByKind,
+      generateBoundingBoxes,
+    ]
+  );
+
+  const handleClearPageBoxes = useCallback(() => {
+    clearBoundingBoxes();
+  }, [clearBoundingBoxes]);
 
   const handleClearTableBoxes = useCallback(() => {
     removeBoundingBoxesByKind('table');
@@ -231,6 +730,13 @@ export default function ImagePDFTool() {
 
   const stats = getBoundingBoxesStats();
 
+  // 同梱アセットの読み込みエラー
+  const assetErrors = [
+    pdfjsError && `PDF.js: ${pdfjsError}`,
+    ocrEngineError && `Tesseract.js: ${ocrEngineError}`,
+    cvError && `OpenCV.js: ${cvError}`,
+  ].filter((message): message is string => !!message);
+
   return (
     <div className='min-h-screen bg-background p-6'>
       <div className='max-w-7xl mx-auto'>
@@ -239,9 +745,16 @@ export default function ImagePDFTool() {
             PDF Image Bounding Box Tool
           </h1>
           <p className='text-muted-foreground'>
-            Upload a PDF, convert to 300 DPI image, and draw precise bounding
-            boxes or auto-detect text with OCR
+            Upload a PDF, convert to a high-resolution image, and draw precise
+            bounding boxes or auto-detect text with OCR
           </p>
+          {assetErrors.length > 0 && (
+            <div className='mt-4 p-3 border border-red-300 bg-red-50 rounded-lg text-sm text-red-700 space-y-1'>
+              {assetErrors.map((message) => (
+                <div key={message}>{message}</div>
+              ))}
+            </div>
+          )}
         </div>
 
         <div className='grid grid-cols-1 lg:grid-cols-4 gap-6'>
@@ -251,16 +764,20 @@ export default function ImagePDFTool() {
             onFileDrop={handleFileDrop}
             onFileInput={handleFileInput}
             onPageChange={changePage}
+            onRenderDpiChange={changeRenderDpi}
           />
 
           {/* PDF Viewer */}
           <PDFViewer
             imageDataUrl={pdfInfo.imageDataUrl}
             boundingBoxes={boundingBoxes}
-            selectedUnit={selectedUnit}
             isDrawing={isDrawing}
             currentBox={currentBox}
+            selectedBoxId={selectedBoxId}
+            editingBox={editingBox}
+            onBoxEditStart={handleBoxEditStart}
             originalDimensions={pdfInfo.originalDimensions}
+            imageDpi={pdfInfo.imageDpi}
             imageRef={imageRef}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
@@ -274,21 +791,71 @@ export default function ImagePDFTool() {
               <Label htmlFor='unit-select'>Default Unit</Label>
               <Select
                 value={selectedUnit}
-                onValueChange={(value: 'px' | 'mm' | 'pt') =>
-                  setSelectedUnit(value)
-                }
+                onValueChange={(value: Unit) => setSelectedUnit(value)}
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value='px'>Pixels (px)</SelectItem>
-                  <SelectItem value='mm'>Millimeters (mm)</SelectItem>
-                  <SelectItem value='pt'>Points (pt)</SelectItem>
+                  {UNITS.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {UNIT_LABELS[unit]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Coordinate Origin */}
+            <div>
+              <Label htmlFor='origin-select'>Coordinate Origin</Label>
+              <Select
+                value={coordinateOrigin}
+                onValueChange={(value: CoordinateOrigin) =>
+                  setCoordinateOrigin(value)
+                }
+              >
+                <SelectTrigger id='origin-select'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value='top-left'>Top-left (screen)</SelectItem>
+                  <SelectItem value='bottom-left'>Bottom-left (PDF)</SelectItem>
                 </SelectContent>
               </Select>
+              <div className='text-xs text-muted-foreground mt-1'>
+                一覧とJSONエクスポートのY座標に適用します
+              </div>
             </div>
 
+            {/* Page Correction */}
+            {pdfInfo.isLoaded && pdfInfo.imageDataUrl && (
+              <PageCorrectionControls
+                settings={pageCorrectionSettings}
+                onSettingsChange={updatePageCorrectionSettings}
+                lastTransform={lastPageTransform}
+              />
+            )}
+
+            {/* Image Preprocessing */}
+            {pdfInfo.isLoaded && pdfInfo.imageDataUrl && (
+              <PreprocessingPanel
+                steps={preprocessingSteps}
+                presets={preprocessingPresets}
+                activePresetName={activePreprocessingPreset}
+                beforeUrl={pdfInfo.imageDataUrl}
+                previewUrl={preprocessingPreviewUrl}
+                isPreviewing={isPreprocessingPreviewing}
+                onAddStep={addPreprocessingStep}
+                onUpdateStep={updatePreprocessingStep}
+                onRemoveStep={removePreprocessingStep}
+                onMoveStep={movePreprocessingStep}
+                onApplyPreset={applyPreprocessingPreset}
+                onSavePreset={savePreprocessingPreset}
+                onDeletePreset={deletePreprocessingPreset}
+              />
+            )}
+
             {/* OCR Settings */}
             {pdfInfo.isLoaded && pdfInfo.imageDataUrl && (
               <OCRSettingsComponent
@@ -296,35 +863,93 @@ export default function ImagePDFTool() {
                 onSettingsChange={updateOCRSettings}
                 onPerformOCR={handlePerformOCR}
                 isProcessing={isOcrProcessing}
+                progress={singlePageOcrProgress}
+                onCancel={cancelOCR}
                 isEnabled={!!pdfInfo.imageDataUrl}
               />
             )}
 
+            {/* Region OCR */}
+            {pdfInfo.isLoaded && pdfInfo.imageDataUrl && (
+              <RegionOCRControls
+                settings={regionOCRSettings}
+                onSettingsChange={updateRegionOCRSettings}
+                onPerformRegionOCR={handlePerformRegionOCR}
+                isProcessing={isOcrProcessing}
+                progress={singlePageOcrProgress}
+                onCancel={cancelOCR}
+                hasSelection={!!selectedBox}
+              />
+            )}
+
+            {/* Batch OCR */}
+            {pdfInfo.isLoaded && pdfInfo.totalPages > 1 && (
+              <BatchOCRControls
+                totalPages={pdfInfo.totalPages}
+                progress={batchOcrProgress}
+                onRunBatchOCR={handleBatchOCR}
+                onCancel={cancelBatchOCR}
+                isProcessing={isOcrProcessing}
+                isEnabled={!!pdfInfo.document}
+              />
+            )}
+
             {/* Table Detection Controls */}
             {pdfInfo.isLoaded && pdfInfo.imageDataUrl && (
               <TableDetectionControls
                 mode={tableDetectionMode}
                 onModeChange={setTableDetectionMode}
                 onDetectTables={handleDetectTables}
+                hasOCRText={!!ocrTextData && ocrTextData.words.length > 0}
                 isProcessing={isTableProcessing}
                 isEnabled={!!pdfInfo.imageDataUrl}
                 cvLoaded={cvLoaded}
                 cvError={cvError}
                 cvLoadingProgress={cvLoadingProgress}
+                detectionError={tableDetectionError}
               />
             )}
 
             {/* Action Buttons */}
             {pdfInfo.isLoaded && (
-              <div className='flex gap-2'>
+              <div className='flex flex-wrap gap-2'>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title='Undo (Ctrl+Z)'
+                >
+                  <Undo2 className='w-4 h-4 mr-1' />
+                  Undo
+                </Button>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title='Redo (Ctrl+Shift+Z)'
+                >
+                  <Redo2 className='w-4 h-4 mr-1' />
+                  Redo
+                </Button>
                 <Button
                   variant='outline'
                   size='sm'
-                  onClick={clearBoundingBoxes}
+                  onClick={handleClearPageBoxes}
                   disabled={boundingBoxes.length === 0}
                 >
                   <Trash2 className='w-4 h-4 mr-1' />
-                  Clear All
+                  Clear Page
+                </Button>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  onClick={clearAllBoundingBoxes}
+                  disabled={stats.documentTotal === 0}
+                >
+                  <Trash2 className='w-4 h-4 mr-1' />
+                  Clear All Pages
                 </Button>
                 <Button
                   variant='outline'
@@ -338,11 +963,20 @@ export default function ImagePDFTool() {
                 <Button
                   size='sm'
                   onClick={handleExportBoundingBoxes}
-                  disabled={boundingBoxes.length === 0}
+                  disabled={stats.documentTotal === 0}
                 >
                   <Download className='w-4 h-4 mr-2' />
                   Export BBoxes
                 </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={handleExportPdfmeTemplate}
+                  disabled={stats.documentTotal === 0}
+                >
+                  <Download className='w-4 h-4 mr-2' />
+                  Export pdfme
+                </Button>
                 <Button
                   size='sm'
                   variant='outline'
@@ -352,6 +986,60 @@ export default function ImagePDFTool() {
                   <Download className='w-4 h-4 mr-2' />
                   Export OCR Text
                 </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={handleExportZonalValues}
+                  disabled={
+                    Object.keys(ocrTextDataByPage).length === 0 ||
+                    !allBoundingBoxes.some(isZonalBox)
+                  }
+                >
+                  <Download className='w-4 h-4 mr-2' />
+                  Export Zonal Values
+                </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={handleExportSearchablePDF}
+                  disabled={Object.keys(ocrTextDataByPage).length === 0}
+                >
+                  <Download className='w-4 h-4 mr-2' />
+                  Export Searchable PDF
+                </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={handleExportHOCR}
+                  disabled={Object.keys(ocrTextDataByPage).length === 0}
+                >
+                  <Download className='w-4 h-4 mr-2' />
+                  Export hOCR
+                </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={handleExportALTO}
+                  disabled={Object.keys(ocrTextDataByPage).length === 0}
+                >
+                  <Download className='w-4 h-4 mr-2' />
+                  Export ALTO
+                </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={() => ocrImportInputRef.current?.click()}
+                >
+                  <Upload className='w-4 h-4 mr-2' />
+                  Import hOCR / ALTO
+                </Button>
+                <input
+                  ref={ocrImportInputRef}
+                  type='file'
+                  accept='.hocr,.html,.htm,.xml'
+                  onChange={handleImportOCRFile}
+                  className='hidden'
+                />
               </div>
             )}
           </div>
@@ -359,8 +1047,16 @@ export default function ImagePDFTool() {
           {/* Bounding Boxes List */}
           <BoundingBoxesList
             boundingBoxes={boundingBoxes}
+            fieldNames={fieldNames}
+            tables={filledTables}
+            currentPage={pdfInfo.currentPage}
+            documentTotal={stats.documentTotal}
             ocrTextData={ocrTextData}
             selectedUnit={selectedUnit}
+            coordinateOrigin={coordinateOrigin}
+            pageHeight={pdfInfo.pageSize?.height ?? null}
+            onExportTable={handleExportTable}
+            onUpdateField={handleUpdateField}
           />
         </div>
       </div>
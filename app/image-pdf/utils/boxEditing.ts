@@ -0,0 +1,78 @@
+import type { BoxEditHandle } from './types';
+
+export interface EditRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const RESIZE_HANDLES: Exclude<BoxEditHandle, 'move'>[] = [
+  'nw',
+  'n',
+  'ne',
+  'e',
+  'se',
+  's',
+  'sw',
+  'w',
+];
+
+/**
+ * ドラッグ量に応じて矩形を移動・リサイズ
+ * 反対側の辺を越えた場合は反転させ、幅・高さは最小値を保つ
+ */
+export const applyBoxEdit = (
+  rect: EditRect,
+  handle: BoxEditHandle,
+  dx: number,
+  dy: number,
+  minSize: number = 1
+): EditRect => {
+  if (handle === 'move') {
+    return { ...rect, x: rect.x + dx, y: rect.y + dy };
+  }
+
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+
+  if (handle.includes('w')) left += dx;
+  if (handle.includes('e')) right += dx;
+  if (handle.includes('n')) top += dy;
+  if (handle.includes('s')) bottom += dy;
+
+  const x = Math.min(left, right);
+  const y = Math.min(top, bottom);
+  return {
+    x,
+    y,
+    width: Math.max(minSize, Math.abs(right - left)),
+    height: Math.max(minSize, Math.abs(bottom - top)),
+  };
+};
+
+/**
+ * 指定した点を含むボックスのうち最も小さいものを返す（重なったボックスの選択用）
+ */
+export const findSmallestRectAt = <T extends EditRect>(
+  rects: T[],
+  x: number,
+  y: number
+): T | null =>
+  rects
+    .filter(
+      (rect) =>
+        x >= rect.x &&
+        x <= rect.x + rect.width &&
+        y >= rect.y &&
+        y <= rect.y + rect.height
+    )
+    .reduce<T | null>(
+      (smallest, rect) =>
+        !smallest || rect.width * rect.height < smallest.width * smallest.height
+          ? rect
+          : smallest,
+      null
+    );
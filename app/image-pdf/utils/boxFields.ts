@@ -0,0 +1,69 @@
+import type { BoundingBox, BoxField, FieldType } from './types';
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Text',
+  multilineText: 'Multiline Text',
+  number: 'Number',
+  date: 'Date',
+  checkbox: 'Checkbox',
+  image: 'Image',
+  qrcode: 'QR Code',
+  barcode: 'Barcode',
+};
+
+/**
+ * 名前が未設定のボックスのフィールド名を種類と通し番号から生成
+ */
+export const getDefaultFieldName = (
+  box: BoundingBox,
+  index: number
+): string => {
+  if (box.kind === 'table') {
+    if (box.id.includes('hline')) return `hline_${index + 1}`;
+    if (box.id.includes('vline')) return `vline_${index + 1}`;
+    if (box.id.includes('cell')) return `cell_${index + 1}`;
+    return `table_${index + 1}`;
+  }
+  return `${box.kind || 'manual'}_${index + 1}`;
+};
+
+/**
+ * ボックスのフィールド情報を取得（未設定の項目は既定値で補う）
+ */
+export const resolveBoxField = (box: BoundingBox, index: number): BoxField => {
+  return {
+    name: box.field?.name.trim() || getDefaultFieldName(box, index),
+    type: box.field?.type || 'text',
+    ...(box.field?.defaultValue
+      ? { defaultValue: box.field.defaultValue }
+      : {}),
+    properties: box.field?.properties || {},
+  };
+};
+
+/**
+ * ボックスの並び順にフィールド名を取得
+ * 同じ名前が続く場合は2つ目以降に _2, _3 … を付けて一意にする
+ */
+export const getUniqueFieldNames = (boxes: BoundingBox[]): string[] => {
+  const used = new Set<string>();
+  return boxes.map((box, index) => {
+    const baseName = resolveBoxField(box, index).name;
+    let name = baseName;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${baseName}_${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+/**
+ * ボックスIDからフィールド名を引く表を作成（一覧と各エクスポートで同じ名前を使う）
+ */
+export const getFieldNamesById = (
+  boxes: BoundingBox[]
+): Record<string, string> => {
+  const names = getUniqueFieldNames(boxes);
+  return Object.fromEntries(boxes.map((box, index) => [box.id, names[index]]));
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  POINTS_PER_UNIT,
+  UNITS,
+  UNIT_DECIMALS,
+  convertToUnits,
+  roundToUnit,
+  toRoundedUnitRect,
+} from './coordinateConversion';
+
+// A4横（842pt）の数倍までの座標
+const ptValue = fc.double({ min: -5000, max: 5000, noNaN: true });
+const ptRect = fc.record({
+  x: ptValue,
+  y: ptValue,
+  width: fc.double({ min: 0, max: 5000, noNaN: true }),
+  height: fc.double({ min: 0, max: 5000, noNaN: true }),
+});
+
+// 丸めによる誤差の上限（pt）。浮動小数点の誤差分だけ余裕を持たせる
+const maxRoundingError = (unit: (typeof UNITS)[number]): number =>
+  (0.5 / 10 ** UNIT_DECIMALS[unit]) * POINTS_PER_UNIT[unit] + 1e-9;
+
+describe.each(UNITS)('pt → %s → pt', (unit) => {
+  it('丸めなしでは元の値に戻る', () => {
+    fc.assert(
+      fc.property(ptValue, (pt) => {
+        const back = convertToUnits(convertToUnits(pt, 'pt', unit), unit, 'pt');
+        expect(back).toBeCloseTo(pt, 9);
+      })
+    );
+  });
+
+  it('単位ごとの桁数で丸めても誤差は丸め幅の半分以内', () => {
+    fc.assert(
+      fc.property(ptValue, (pt) => {
+        const rounded = roundToUnit(convertToUnits(pt, 'pt', unit), unit);
+        const back = convertToUnits(rounded, unit, 'pt');
+        expect(Math.abs(back - pt)).toBeLessThanOrEqual(maxRoundingError(unit));
+      })
+    );
+  });
+
+  it('丸めた矩形の各値も誤差は丸め幅の半分以内', () => {
+    fc.assert(
+      fc.property(ptRect, (rect) => {
+        const rounded = toRoundedUnitRect(rect, unit);
+        (['x', 'y', 'width', 'height'] as const).forEach((key) => {
+          const back = convertToUnits(rounded[key], unit, 'pt');
+          expect(Math.abs(back - rect[key])).toBeLessThanOrEqual(
+            maxRoundingError(unit)
+          );
+        });
+      })
+    );
+  });
+
+  it('丸め誤差は 0.03pt 未満', () => {
+    expect(maxRoundingError(unit)).toBeLessThan(0.03);
+  });
+});
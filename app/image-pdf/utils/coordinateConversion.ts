@@ -1,3 +1,5 @@
+import type { CoordinateOrigin, Unit } from './types';
+
 export interface CoordinateConversion {
   pt: {
     x: number;
@@ -24,51 +26,121 @@ export interface Dimensions {
   height: number;
 }
 
+// ページを画像に描画する既定の解像度と選択肢
+export const DEFAULT_RENDER_DPI = 300;
+export const RENDER_DPI_OPTIONS = [72, 150, 200, 300, 400, 600];
+
+/**
+ * 描画解像度の画像ピクセル数/PDFポイント（PDFは72 DPI）
+ */
+export const getDpiScale = (dpi: number): number => {
+  return dpi / 72;
+};
+
+// 1単位あたりのPDFポイント（単位変換はすべてこの表を使う）
+export const POINTS_PER_UNIT: Record<Unit, number> = {
+  pt: 1,
+  // 96 DPI基準
+  px: 72 / 96,
+  mm: 72 / 25.4,
+  cm: 72 / 2.54,
+  in: 72,
+  // 1/20 pt（Word / Excel）
+  twip: 1 / 20,
+  // 1/12700 pt（Office Open XML の English Metric Unit）
+  emu: 1 / 12700,
+};
+
+export const UNIT_LABELS: Record<Unit, string> = {
+  px: 'Pixels (px)',
+  mm: 'Millimeters (mm)',
+  cm: 'Centimeters (cm)',
+  in: 'Inches (in)',
+  pt: 'Points (pt)',
+  twip: 'Twips',
+  emu: 'EMU',
+};
+
+export const UNITS = Object.keys(UNIT_LABELS) as Unit[];
+
+// 単位ごとの見出しの色
+export const UNIT_COLORS: Record<Unit, string> = {
+  pt: 'text-emerald-600',
+  px: 'text-blue-600',
+  mm: 'text-purple-600',
+  cm: 'text-sky-600',
+  in: 'text-sky-600',
+  twip: 'text-sky-600',
+  emu: 'text-sky-600',
+};
+
+// 表示時の小数点以下の桁数（どの単位でも丸め誤差が 0.03pt 未満になるようにする）
+export const UNIT_DECIMALS: Record<Unit, number> = {
+  pt: 2,
+  px: 2,
+  mm: 2,
+  cm: 3,
+  in: 4,
+  twip: 0,
+  emu: 0,
+};
+
+/**
+ * 単位ごとの桁数で丸める
+ */
+export const roundToUnit = (value: number, unit: Unit): number => {
+  const factor = 10 ** UNIT_DECIMALS[unit];
+  return Math.round(value * factor) / factor;
+};
+
 /**
  * PDFポイントをピクセルに変換（96 DPI基準）
  */
 export const pointsToPixels = (points: number): number => {
-  return ((points / 0.75) * 100) / 100;
+  return points / POINTS_PER_UNIT.px;
 };
 
 /**
  * PDFポイントをミリメートルに変換
  */
 export const pointsToMillimeters = (points: number): number => {
-  return ((points / 2.834645669) * 100) / 100;
+  return points / POINTS_PER_UNIT.mm;
 };
 
 /**
  * ピクセルをPDFポイントに変換
  */
 export const pixelsToPoints = (pixels: number): number => {
-  return pixels * 0.75;
+  return pixels * POINTS_PER_UNIT.px;
 };
 
 /**
  * ミリメートルをPDFポイントに変換
  */
 export const millimetersToPoints = (millimeters: number): number => {
-  return millimeters * 2.834645669;
+  return millimeters * POINTS_PER_UNIT.mm;
 };
 
 /**
- * 画像座標（300 DPI）をPDFポイントに変換
+ * 画像座標（dpiで描画した画像）をPDFポイントに変換
+ * 結果はページの表示座標（左上原点、回転・CropBox適用後）。PDFユーザー空間へは pageGeometry で変換する
  */
 export const imageCoordsToPDFPoints = (
   imageX: number,
   imageY: number,
   imageWidth: number,
-  imageHeight: number
+  imageHeight: number,
+  dpi: number
 ): CoordinateConversion => {
   console.log('[DEBUG] imageCoordsToPDFPoints input:', {
     imageX,
     imageY,
     imageWidth,
     imageHeight,
+    dpi,
   });
 
-  const dpiScale = 300 / 72;
+  const dpiScale = getDpiScale(dpi);
   const pdfX = imageX / dpiScale;
   const pdfY = imageY / dpiScale;
   const pdfWidth = imageWidth / dpiScale;
@@ -157,15 +229,16 @@ export const pdfPointsToDisplayCoords = (
   pdfWidth: number,
   pdfHeight: number,
   originalDimensions: Dimensions | null,
-  imageElement: HTMLImageElement | null
+  imageElement: HTMLImageElement | null,
+  dpi: number
 ): { x: number; y: number; width: number; height: number } | null => {
   if (!originalDimensions || !imageElement) return null;
 
   const displayImageWidth = imageElement.clientWidth;
   const displayImageHeight = imageElement.clientHeight;
 
-  // PDFポイントを300 DPI画像座標に変換
-  const dpiScale = 300 / 72;
+  // PDFポイントを描画解像度の画像座標に変換
+  const dpiScale = getDpiScale(dpi);
   const imageX = pdfX * dpiScale;
   const imageY = pdfY * dpiScale;
   const imageWidth = pdfWidth * dpiScale;
@@ -184,30 +257,77 @@ export const pdfPointsToDisplayCoords = (
 };
 
 /**
- * 単位変換を行う汎用関数
+ * PDFポイントを画像サイズに対する割合（0〜1）に変換
+ * 表示サイズを参照しないため、ズームの切り替え中でも重ねる位置がずれない
+ */
+export const pdfPointsToImageFraction = (
+  pdfX: number,
+  pdfY: number,
+  pdfWidth: number,
+  pdfHeight: number,
+  originalDimensions: Dimensions,
+  dpi: number
+): { x: number; y: number; width: number; height: number } => {
+  const dpiScale = getDpiScale(dpi);
+  return {
+    x: (pdfX * dpiScale) / originalDimensions.width,
+    y: (pdfY * dpiScale) / originalDimensions.height,
+    width: (pdfWidth * dpiScale) / originalDimensions.width,
+    height: (pdfHeight * dpiScale) / originalDimensions.height,
+  };
+};
+
+/**
+ * 左上原点のY座標（pt）を指定した原点のY座標に変換
+ * 左下原点では矩形の下端をページの高さから測る
+ */
+export const toCoordinateOrigin = (
+  y: number,
+  height: number,
+  pageHeight: number,
+  origin: CoordinateOrigin
+): number => {
+  return origin === 'bottom-left' ? pageHeight - y - height : y;
+};
+
+/**
+ * 単位変換を行う汎用関数（ptを経由して変換）
  */
 export const convertToUnits = (
   value: number,
-  fromUnit: 'px' | 'mm' | 'pt',
-  toUnit: 'px' | 'mm' | 'pt'
+  fromUnit: Unit,
+  toUnit: Unit
 ): number => {
   if (fromUnit === toUnit) return value;
+  return (value * POINTS_PER_UNIT[fromUnit]) / POINTS_PER_UNIT[toUnit];
+};
+
+/**
+ * 矩形の各値を単位変換
+ */
+export const convertRectToUnits = (
+  rect: { x: number; y: number; width: number; height: number },
+  fromUnit: Unit,
+  toUnit: Unit
+): { x: number; y: number; width: number; height: number } => ({
+  x: convertToUnits(rect.x, fromUnit, toUnit),
+  y: convertToUnits(rect.y, fromUnit, toUnit),
+  width: convertToUnits(rect.width, fromUnit, toUnit),
+  height: convertToUnits(rect.height, fromUnit, toUnit),
+});
 
-  // Convert to points first, then to target unit
-  let points: number;
-  if (fromUnit === 'px') {
-    points = pixelsToPoints(value);
-  } else if (fromUnit === 'mm') {
-    points = millimetersToPoints(value);
-  } else {
-    points = value;
-  }
-
-  if (toUnit === 'px') {
-    return pointsToPixels(points);
-  } else if (toUnit === 'mm') {
-    return pointsToMillimeters(points);
-  } else {
-    return points;
-  }
+/**
+ * 矩形（ptで与える）を指定単位に変換し、単位ごとの桁数で丸める（表示・出力用）
+ */
+export const toRoundedUnitRect = (
+  rect: { x: number; y: number; width: number; height: number },
+  unit: Unit
+): { x: number; y: number; width: number; height: number } => {
+  const converted = convertRectToUnits(rect, 'pt', unit);
+  return {
+    x: roundToUnit(converted.x, unit),
+    y: roundToUnit(converted.y, unit),
+    width: roundToUnit(converted.width, unit),
+    height: roundToUnit(converted.height, unit),
+  };
 };
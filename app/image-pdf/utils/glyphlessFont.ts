@@ -0,0 +1,370 @@
+import { PDFDocument, PDFHexString, PDFRef, PDFString } from 'pdf-lib';
+
+// 字形を持たないフォント（Tesseract のPDF出力と同じ方式）
+// 不可視テキストレイヤー専用で、ToUnicode CMap によって検索・コピーできる
+// 字形がないため日本語を含むどの文字でもフォントファイルなしで埋め込める
+const FONT_NAME = 'GlyphLessFont';
+const UNITS_PER_EM = 1000;
+
+// 全グリフ共通の送り幅（1000/em）
+const GLYPHLESS_GLYPH_WIDTH = 500;
+const MAX_CID = 0xffff;
+
+interface FontTable {
+  tag: string;
+  data: Uint8Array;
+}
+
+// ビッグエンディアンで値を書き込む
+const createTableWriter = (size: number) => {
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+  let offset = 0;
+  return {
+    data,
+    u16: (value: number) => {
+      view.setUint16(offset, value);
+      offset += 2;
+    },
+    i16: (value: number) => {
+      view.setInt16(offset, value);
+      offset += 2;
+    },
+    u32: (value: number) => {
+      view.setUint32(offset, value >>> 0);
+      offset += 4;
+    },
+    skip: (bytes: number) => {
+      offset += bytes;
+    },
+  };
+};
+
+const tableChecksum = (data: Uint8Array): number => {
+  const padded = new Uint8Array(Math.ceil(data.length / 4) * 4);
+  padded.set(data);
+  const view = new DataView(padded.buffer);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + view.getUint32(i)) >>> 0;
+  }
+  return sum;
+};
+
+const createHeadTable = (): Uint8Array => {
+  const t = createTableWriter(54);
+  t.u32(0x00010000); // version
+  t.u32(0x00010000); // fontRevision
+  t.u32(0); // checkSumAdjustment（フォント全体を組み立ててから設定）
+  t.u32(0x5f0f3cf5); // magicNumber
+  t.u16(0x000b); // flags
+  t.u16(UNITS_PER_EM);
+  t.skip(16); // created, modified
+  t.i16(0); // xMin
+  t.i16(0); // yMin
+  t.i16(GLYPHLESS_GLYPH_WIDTH); // xMax
+  t.i16(UNITS_PER_EM); // yMax
+  t.u16(0); // macStyle
+  t.u16(3); // lowestRecPPEM
+  t.i16(2); // fontDirectionHint
+  t.i16(0); // indexToLocFormat（short）
+  t.i16(0); // glyphDataFormat
+  return t.data;
+};
+
+const createHheaTable = (numGlyphs: number): Uint8Array => {
+  const t = createTableWriter(36);
+  t.u32(0x00010000);
+  t.i16(UNITS_PER_EM); // ascender
+  t.i16(0); // descender
+  t.i16(0); // lineGap
+  t.u16(GLYPHLESS_GLYPH_WIDTH); // advanceWidthMax
+  t.i16(0); // minLeftSideBearing
+  t.i16(0); // minRightSideBearing
+  t.i16(GLYPHLESS_GLYPH_WIDTH); // xMaxExtent
+  t.i16(1); // caretSlopeRise
+  t.i16(0); // caretSlopeRun
+  t.skip(10); // caretOffset, reserved
+  t.i16(0); // metricDataFormat
+  t.u16(numGlyphs); // numberOfHMetrics
+  return t.data;
+};
+
+const createMaxpTable = (numGlyphs: number): Uint8Array => {
+  const t = createTableWriter(32);
+  t.u32(0x00010000);
+  t.u16(numGlyphs);
+  t.skip(8); // maxPoints, maxContours, maxCompositePoints, maxCompositeContours
+  t.u16(2); // maxZones
+  return t.data;
+};
+
+const createOS2Table = (): Uint8Array => {
+  const t = createTableWriter(86);
+  t.u16(1); // version
+  t.i16(GLYPHLESS_GLYPH_WIDTH); // xAvgCharWidth
+  t.u16(400); // usWeightClass
+  t.u16(5); // usWidthClass
+  t.skip(24); // fsType 〜 sFamilyClass
+  t.skip(10); // panose
+  t.skip(16); // ulUnicodeRange1-4
+  t.skip(4); // achVendID
+  t.u16(0x0040); // fsSelection（REGULAR）
+  t.u16(0xffff); // usFirstCharIndex
+  t.u16(0xffff); // usLastCharIndex
+  t.i16(UNITS_PER_EM); // sTypoAscender
+  t.i16(0); // sTypoDescender
+  t.i16(0); // sTypoLineGap
+  t.u16(UNITS_PER_EM); // usWinAscent
+  t.u16(0); // usWinDescent
+  return t.data;
+};
+
+// 文字からグリフへの対応は持たない（PDFのCIDToGIDMapで対応付ける）
+const createCmapTable = (): Uint8Array => {
+  const t = createTableWriter(36);
+  t.u16(0); // version
+  t.u16(1); // numTables
+  t.u16(3); // platformID（Windows）
+  t.u16(1); // encodingID（Unicode BMP）
+  t.u32(12); // offset
+  t.u16(4); // format
+  t.u16(24); // length
+  t.u16(0); // language
+  t.u16(2); // segCountX2
+  t.u16(2); // searchRange
+  t.u16(0); // entrySelector
+  t.u16(0); // rangeShift
+  t.u16(0xffff); // endCode
+  t.u16(0); // reservedPad
+  t.u16(0xffff); // startCode
+  t.i16(1); // idDelta
+  t.u16(0); // idRangeOffset
+  return t.data;
+};
+
+const createHmtxTable = (numGlyphs: number): Uint8Array => {
+  const t = createTableWriter(numGlyphs * 4);
+  for (let i = 0; i < numGlyphs; i++) {
+    t.u16(GLYPHLESS_GLYPH_WIDTH);
+    t.i16(0);
+  }
+  return t.data;
+};
+
+// 全グリフが輪郭なし（長さ0）
+const createLocaTable = (numGlyphs: number): Uint8Array =>
+  new Uint8Array((numGlyphs + 1) * 2);
+
+const createNameTable = (): Uint8Array => {
+  const t = createTableWriter(6);
+  t.u16(0); // format
+  t.u16(0); // count
+  t.u16(6); // stringOffset
+  return t.data;
+};
+
+const createPostTable = (): Uint8Array => {
+  const t = createTableWriter(32);
+  t.u32(0x00030000); // version 3（グリフ名なし）
+  t.skip(8); // italicAngle, underlinePosition, underlineThickness
+  t.u32(1); // isFixedPitch
+  return t.data;
+};
+
+/**
+ * 字形のないTrueTypeフォントを生成
+ * グリフ0（.notdef）とグリフ1（全文字が対応する空白グリフ）のみを持つ
+ */
+export const createGlyphlessFontProgram = (): Uint8Array => {
+  const numGlyphs = 2;
+  // テーブルディレクトリはタグ順に並べる
+  const tables: FontTable[] = [
+    { tag: 'OS/2', data: createOS2Table() },
+    { tag: 'cmap', data: createCmapTable() },
+    // 空のテーブルは欠落扱いされるため、長さ0のグリフの後に詰め物を置く
+    { tag: 'glyf', data: new Uint8Array(4) },
+    { tag: 'head', data: createHeadTable() },
+    { tag: 'hhea', data: createHheaTable(numGlyphs) },
+    { tag: 'hmtx', data: createHmtxTable(numGlyphs) },
+    { tag: 'loca', data: createLocaTable(numGlyphs) },
+    { tag: 'maxp', data: createMaxpTable(numGlyphs) },
+    { tag: 'name', data: createNameTable() },
+    { tag: 'post', data: createPostTable() },
+  ];
+
+  const headerSize = 12 + tables.length * 16;
+  const padded = (length: number) => Math.ceil(length / 4) * 4;
+  const totalSize = tables.reduce(
+    (size, table) => size + padded(table.data.length),
+    headerSize
+  );
+
+  const font = new Uint8Array(totalSize);
+  const view = new DataView(font.buffer);
+  const entrySelector = Math.floor(Math.log2(tables.length));
+  const searchRange = 2 ** entrySelector * 16;
+
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, tables.length * 16 - searchRange);
+
+  let headOffset = 0;
+  let offset = headerSize;
+  tables.forEach((table, index) => {
+    const record = 12 + index * 16;
+    Array.from(table.tag).forEach((char, i) =>
+      view.setUint8(record + i, char.charCodeAt(0))
+    );
+    view.setUint32(record + 4, tableChecksum(table.data));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, table.data.length);
+    font.set(table.data, offset);
+    if (table.tag === 'head') headOffset = offset;
+    offset += padded(table.data.length);
+  });
+
+  // フォント全体のチェックサムが 0xB1B0AFBA になるよう調整
+  view.setUint32(headOffset + 8, (0xb1b0afba - tableChecksum(font)) >>> 0);
+  return font;
+};
+
+const toHex4 = (value: number): string =>
+  value.toString(16).toUpperCase().padStart(4, '0');
+
+// 文字をUTF-16BEの16進に変換（BMP外の文字はサロゲートペア）
+const toUTF16Hex = (char: string): string =>
+  Array.from({ length: char.length }, (_, i) =>
+    toHex4(char.charCodeAt(i))
+  ).join('');
+
+// CIDから元の文字に戻すToUnicode CMap（bfcharは1ブロック100件まで）
+const createToUnicodeCMap = (chars: string[]): string => {
+  const entries = chars.map(
+    (char, index) => `<${toHex4(index + 1)}> <${toUTF16Hex(char)}>`
+  );
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar`);
+  }
+
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+export interface GlyphlessFont {
+  // ページのリソースに追加するフォント辞書の参照
+  ref: PDFRef;
+  encodeText: (text: string) => PDFHexString;
+  widthOfTextAtSize: (text: string, size: number) => number;
+  // 使われた文字の対応表（ToUnicode、CIDToGIDMap）を書き込む。保存前に1回呼ぶ
+  finalize: () => void;
+}
+
+/**
+ * 字形のないフォントをPDFに登録（Type0、Identity-H）
+ * CIDは使われた文字（コードポイント）ごとに1から割り当てるため、BMP外の文字も検索できる
+ */
+export const embedGlyphlessFont = (pdfDoc: PDFDocument): GlyphlessFont => {
+  const { context } = pdfDoc;
+  const fontProgram = createGlyphlessFontProgram();
+  const cidByChar = new Map<string, number>();
+
+  const fontFileRef = context.register(
+    context.flateStream(fontProgram, { Length1: fontProgram.length })
+  );
+  const descriptorRef = context.register(
+    context.obj({
+      Type: 'FontDescriptor',
+      FontName: FONT_NAME,
+      Flags: 5,
+      FontBBox: [0, 0, GLYPHLESS_GLYPH_WIDTH, UNITS_PER_EM],
+      ItalicAngle: 0,
+      Ascent: UNITS_PER_EM,
+      Descent: 0,
+      CapHeight: UNITS_PER_EM,
+      StemV: 80,
+      FontFile2: fontFileRef,
+    })
+  );
+
+  // 文字の対応表は使われた文字が確定してから書き込む
+  const cidToGidMapRef = context.nextRef();
+  const toUnicodeRef = context.nextRef();
+
+  const cidFontRef = context.register(
+    context.obj({
+      Type: 'Font',
+      Subtype: 'CIDFontType2',
+      BaseFont: FONT_NAME,
+      CIDSystemInfo: context.obj({
+        Registry: PDFString.of('Adobe'),
+        Ordering: PDFString.of('Identity'),
+        Supplement: 0,
+      }),
+      FontDescriptor: descriptorRef,
+      DW: GLYPHLESS_GLYPH_WIDTH,
+      CIDToGIDMap: cidToGidMapRef,
+    })
+  );
+  const ref = context.register(
+    context.obj({
+      Type: 'Font',
+      Subtype: 'Type0',
+      BaseFont: FONT_NAME,
+      Encoding: 'Identity-H',
+      DescendantFonts: [cidFontRef],
+      ToUnicode: toUnicodeRef,
+    })
+  );
+
+  const encodeText = (text: string): PDFHexString =>
+    PDFHexString.of(
+      Array.from(text)
+        .map((char) => {
+          let cid = cidByChar.get(char);
+          if (cid === undefined) {
+            // 2バイトのCIDに収まらない分は最後のCIDにまとめる
+            cid = Math.min(cidByChar.size + 1, MAX_CID);
+            if (cid < MAX_CID) cidByChar.set(char, cid);
+          }
+          return toHex4(cid);
+        })
+        .join('')
+    );
+
+  const widthOfTextAtSize = (text: string, size: number): number =>
+    (Array.from(text).length * GLYPHLESS_GLYPH_WIDTH * size) / UNITS_PER_EM;
+
+  const finalize = () => {
+    const chars = Array.from(cidByChar.keys());
+    // CID 0 は .notdef、それ以外はすべて空白グリフ（GID 1）
+    const cidToGidMap = new Uint8Array((chars.length + 1) * 2);
+    for (let i = 3; i < cidToGidMap.length; i += 2) cidToGidMap[i] = 1;
+
+    context.assign(cidToGidMapRef, context.flateStream(cidToGidMap));
+    context.assign(
+      toUnicodeRef,
+      context.flateStream(createToUnicodeCMap(chars))
+    );
+  };
+
+  return { ref, encodeText, widthOfTextAtSize, finalize };
+};
@@ -262,7 +262,7 @@ const generateGaussianKernel = (size: number, sigma: number): number[][] => {
 };
 
 /**
- * 適応的閾値処理
+ * 適応的閾値処理（積分画像でブロック内の平均を求める）
  */
 export const applyAdaptiveThreshold = (
   imageData: ImageData,
@@ -276,30 +276,32 @@ export const applyAdaptiveThreshold = (
 
   const halfBlock = Math.floor(blockSize / 2);
 
+  // 各画素までの輝度の累積和（1行・1列ずらして保持）
+  const integral = new Float64Array((width + 1) * (height + 1));
   for (let y = 0; y < height; y++) {
+    let rowSum = 0;
     for (let x = 0; x < width; x++) {
-      let sum = 0;
-      let count = 0;
+      const idx = (y * width + x) * 4;
+      rowSum += (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
+      integral[(y + 1) * (width + 1) + x + 1] =
+        integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
 
-      // ブロック内の平均値を計算
-      for (
-        let by = Math.max(0, y - halfBlock);
-        by <= Math.min(height - 1, y + halfBlock);
-        by++
-      ) {
-        for (
-          let bx = Math.max(0, x - halfBlock);
-          bx <= Math.min(width - 1, x + halfBlock);
-          bx++
-        ) {
-          const idx = (by * width + bx) * 4;
-          const gray = (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
-          sum += gray;
-          count++;
-        }
-      }
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - halfBlock);
+    const y1 = Math.min(height - 1, y + halfBlock) + 1;
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - halfBlock);
+      const x1 = Math.min(width - 1, x + halfBlock) + 1;
 
-      const mean = sum / count;
+      // ブロック内の平均値を計算
+      const sum =
+        integral[y1 * (width + 1) + x1] -
+        integral[y0 * (width + 1) + x1] -
+        integral[y1 * (width + 1) + x0] +
+        integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
       const threshold = mean - constant;
 
       const idx = (y * width + x) * 4;
@@ -313,3 +315,111 @@ export const applyAdaptiveThreshold = (
 
   return new ImageData(output, width, height);
 };
+
+/**
+ * 指定した矩形領域を白で塗りつぶす（既にテキストがある領域をOCR対象から除外）
+ */
+export const maskImageRegions = (
+  imageSrc: string,
+  regions: Array<{ x0: number; y0: number; x1: number; y1: number }>
+): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        resolve(imageSrc);
+        return;
+      }
+
+      canvas.width = img.width;
+      canvas.height = img.height;
+      ctx.drawImage(img, 0, 0);
+
+      ctx.fillStyle = '#ffffff';
+      regions.forEach((region) => {
+        ctx.fillRect(
+          region.x0,
+          region.y0,
+          region.x1 - region.x0,
+          region.y1 - region.y0
+        );
+      });
+
+      resolve(canvas.toDataURL('image/png'));
+    };
+
+    img.onerror = () => resolve(imageSrc);
+    img.src = imageSrc;
+  });
+};
+
+/**
+ * 画像の矩形領域を余白付きで切り出す（戻り値のオフセットを足すと元画像の座標になる）
+ */
+export const cropImageRegion = (
+  imageSrc: string,
+  region: { x0: number; y0: number; x1: number; y1: number },
+  margin: number = 16
+): Promise<{ imageUrl: string; offsetX: number; offsetY: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const x0 = Math.max(0, Math.floor(region.x0));
+      const y0 = Math.max(0, Math.floor(region.y0));
+      const x1 = Math.min(img.width, Math.ceil(region.x1));
+      const y1 = Math.min(img.height, Math.ceil(region.y1));
+      if (x1 <= x0 || y1 <= y0) {
+        reject(new Error('Crop region is outside the image'));
+        return;
+      }
+
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+
+      // 文字が端に接していると認識精度が落ちるため白い余白を付ける
+      canvas.width = x1 - x0 + margin * 2;
+      canvas.height = y1 - y0 + margin * 2;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(
+        img,
+        x0,
+        y0,
+        x1 - x0,
+        y1 - y0,
+        margin,
+        margin,
+        x1 - x0,
+        y1 - y0
+      );
+
+      resolve({
+        imageUrl: canvas.toDataURL('image/png'),
+        offsetX: x0 - margin,
+        offsetY: y0 - margin,
+      });
+    };
+
+    img.onerror = () => reject(new Error('Failed to load image for cropping'));
+    img.src = imageSrc;
+  });
+};
+
+/**
+ * 画像を読み込んでImage要素を返す
+ */
+export const loadImage = (imageSrc: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageSrc;
+  });
+};
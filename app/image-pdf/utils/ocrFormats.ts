@@ -0,0 +1,573 @@
+import type { CoordinateConversion } from './coordinateConversion';
+import type { OCRTextData } from './types';
+
+type OCRTextItem = OCRTextData['words'][number];
+
+interface PixelBBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// 階層化したOCR結果（block → paragraph → line → word）
+export interface OCRTreeNode {
+  text: string;
+  confidence: number;
+  bbox: PixelBBox;
+  children: OCRTreeNode[];
+}
+
+// hOCR / ALTO の1ページ分（座標は画像ピクセル）
+export interface OCRFormatPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  // 画像の解像度（読み込んだファイルでは不明なことがある）
+  dpi?: number;
+  blocks: OCRTreeNode[];
+}
+
+/**
+ * XML特殊文字をエスケープ
+ */
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const round = (value: number): number => Math.round(value);
+
+const unionBBox = (boxes: PixelBBox[]): PixelBBox => ({
+  x0: Math.min(...boxes.map((b) => b.x0)),
+  y0: Math.min(...boxes.map((b) => b.y0)),
+  x1: Math.max(...boxes.map((b) => b.x1)),
+  y1: Math.max(...boxes.map((b) => b.y1)),
+});
+
+const averageConfidence = (nodes: OCRTreeNode[]): number =>
+  nodes.length > 0
+    ? nodes.reduce((sum, node) => sum + node.confidence, 0) / nodes.length
+    : 0;
+
+/**
+ * 子要素の中心が親要素の矩形に含まれるかを判定
+ */
+const containsCenter = (parent: PixelBBox, child: PixelBBox): boolean => {
+  const cx = (child.x0 + child.x1) / 2;
+  const cy = (child.y0 + child.y1) / 2;
+  return (
+    cx >= parent.x0 && cx <= parent.x1 && cy >= parent.y0 && cy <= parent.y1
+  );
+};
+
+/**
+ * 子要素を包含関係で親要素に割り当てる
+ * どの親にも含まれない子要素は、それだけを含む親を補う
+ */
+const nestItems = (
+  parents: OCRTextItem[],
+  children: OCRTreeNode[]
+): OCRTreeNode[] => {
+  const nodes: OCRTreeNode[] = parents.map((parent) => ({
+    text: parent.text,
+    confidence: parent.confidence,
+    bbox: parent.bbox.original,
+    children: [],
+  }));
+
+  children.forEach((child) => {
+    const parent = nodes.find((node) => containsCenter(node.bbox, child.bbox));
+    if (parent) {
+      parent.children.push(child);
+    } else {
+      nodes.push({
+        text: child.text,
+        confidence: child.confidence,
+        bbox: child.bbox,
+        children: [child],
+      });
+    }
+  });
+
+  // 子を持たない親（OCRの取りこぼし）は出力しない
+  return nodes.filter((node) => node.children.length > 0);
+};
+
+/**
+ * フラットなOCR結果を block → paragraph → line → word の階層に変換
+ */
+export const buildOCRHierarchy = (data: OCRTextData): OCRTreeNode[] => {
+  const words: OCRTreeNode[] = data.words.map((word) => ({
+    text: word.text,
+    confidence: word.confidence,
+    bbox: word.bbox.original,
+    children: [],
+  }));
+
+  const lines = nestItems(data.lines, words);
+  const paragraphs = nestItems(data.paragraphs, lines);
+  return nestItems(data.blocks, paragraphs);
+};
+
+/**
+ * 階層化したOCR結果をフラットなOCRTextDataに変換
+ */
+export const flattenOCRHierarchy = (
+  blocks: OCRTreeNode[],
+  convertToPDFCoords: (
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => CoordinateConversion | null
+): OCRTextData => {
+  const timestamp = Date.now();
+  const result: OCRTextData = {
+    text: '',
+    confidence: 0,
+    source: 'ocr',
+    words: [],
+    lines: [],
+    paragraphs: [],
+    blocks: [],
+  };
+
+  const toItem = (
+    node: OCRTreeNode,
+    level: 'word' | 'line' | 'paragraph' | 'block',
+    index: number
+  ): OCRTextItem => {
+    const { x0, y0, x1, y1 } = node.bbox;
+    const coords = convertToPDFCoords(
+      x0,
+      y0,
+      Math.max(1, x1 - x0),
+      Math.max(1, y1 - y0)
+    );
+    return {
+      id: `ocr-${level}-${timestamp}-${index}`,
+      text: node.text,
+      confidence: node.confidence,
+      bbox: {
+        original: { x0, y0, x1, y1 },
+        pt: coords ? coords.pt : null,
+        px: coords ? coords.px : null,
+        mm: coords ? coords.mm : null,
+      },
+    };
+  };
+
+  blocks.forEach((block) => {
+    result.blocks.push(toItem(block, 'block', result.blocks.length));
+    block.children.forEach((paragraph) => {
+      result.paragraphs.push(
+        toItem(paragraph, 'paragraph', result.paragraphs.length)
+      );
+      paragraph.children.forEach((line) => {
+        result.lines.push(toItem(line, 'line', result.lines.length));
+        line.children.forEach((word) => {
+          result.words.push(toItem(word, 'word', result.words.length));
+        });
+      });
+    });
+  });
+
+  result.text = blocks.map((block) => block.text).join('\n\n');
+  result.confidence = averageConfidence(
+    blocks.flatMap((b) =>
+      b.children.flatMap((p) => p.children.flatMap((l) => l.children))
+    )
+  );
+  return result;
+};
+
+/**
+ * 子要素からテキスト・信頼度・矩形を再計算した階層ノードを作成
+ */
+const createParentNode = (
+  children: OCRTreeNode[],
+  separator: string,
+  bbox?: PixelBBox
+): OCRTreeNode => ({
+  text: children.map((child) => child.text).join(separator),
+  confidence: averageConfidence(children),
+  bbox: bbox ?? unionBBox(children.map((child) => child.bbox)),
+  children,
+});
+
+/**
+ * hOCR（HTML）形式に変換
+ */
+export const toHOCR = (pages: OCRFormatPage[], title: string): string => {
+  const bboxTitle = (bbox: PixelBBox) =>
+    `bbox ${round(bbox.x0)} ${round(bbox.y0)} ${round(bbox.x1)} ${round(
+      bbox.y1
+    )}`;
+
+  const body = pages
+    .map((page) => {
+      const pageIndex = page.pageNumber - 1;
+      const blocks = page.blocks
+        .map((block, b) => {
+          const paragraphs = block.children
+            .map((paragraph, p) => {
+              const lines = paragraph.children
+                .map((line, l) => {
+                  const words = line.children
+                    .map(
+                      (word, w) =>
+                        `          <span class='ocrx_word' id='word_${pageIndex}_${b}_${p}_${l}_${w}' title='${bboxTitle(
+                          word.bbox
+                        )}; x_wconf ${round(word.confidence)}'>${escapeXml(
+                          word.text
+                        )}</span>`
+                    )
+                    .join('\n');
+                  return `        <span class='ocr_line' id='line_${pageIndex}_${b}_${p}_${l}' title='${bboxTitle(
+                    line.bbox
+                  )}'>\n${words}\n        </span>`;
+                })
+                .join('\n');
+              return `      <p class='ocr_par' id='par_${pageIndex}_${b}_${p}' title='${bboxTitle(
+                paragraph.bbox
+              )}'>\n${lines}\n      </p>`;
+            })
+            .join('\n');
+          return `    <div class='ocr_carea' id='block_${pageIndex}_${b}' title='${bboxTitle(
+            block.bbox
+          )}'>\n${paragraphs}\n    </div>`;
+        })
+        .join('\n');
+      return `  <div class='ocr_page' id='page_${pageIndex}' title='${bboxTitle(
+        {
+          x0: 0,
+          y0: 0,
+          x1: page.width,
+          y1: page.height,
+        }
+      )}; ppageno ${pageIndex}${
+        page.dpi ? `; scan_res ${page.dpi} ${page.dpi}` : ''
+      }'>\n${blocks}\n  </div>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN"
+    "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+ <head>
+  <title>${escapeXml(title)}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>
+  <meta name='ocr-system' content='tesseract.js'/>
+  <meta name='ocr-capabilities' content='ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf'/>
+ </head>
+ <body>
+${body}
+ </body>
+</html>
+`;
+};
+
+/**
+ * ALTO v4 XML形式に変換（MeasurementUnitはpixel）
+ */
+export const toALTO = (pages: OCRFormatPage[], fileName: string): string => {
+  const position = (bbox: PixelBBox) =>
+    `HPOS="${round(bbox.x0)}" VPOS="${round(bbox.y0)}" WIDTH="${round(
+      bbox.x1 - bbox.x0
+    )}" HEIGHT="${round(bbox.y1 - bbox.y0)}"`;
+
+  const layout = pages
+    .map((page) => {
+      const p = page.pageNumber;
+      const blocks = page.blocks
+        .map((block, b) => {
+          const textBlocks = block.children
+            .map((paragraph, t) => {
+              const lines = paragraph.children
+                .map((line, l) => {
+                  const strings = line.children
+                    .map(
+                      (word, w) =>
+                        `              <String ID="p${p}_w${b}_${t}_${l}_${w}" ${position(
+                          word.bbox
+                        )} CONTENT="${escapeXml(word.text)}" WC="${(
+                          word.confidence / 100
+                        ).toFixed(2)}"/>`
+                    )
+                    .join('\n              <SP/>\n');
+                  return `            <TextLine ID="p${p}_l${b}_${t}_${l}" ${position(
+                    line.bbox
+                  )}>\n${strings}\n            </TextLine>`;
+                })
+                .join('\n');
+              return `          <TextBlock ID="p${p}_t${b}_${t}" ${position(
+                paragraph.bbox
+              )}>\n${lines}\n          </TextBlock>`;
+            })
+            .join('\n');
+          return `        <ComposedBlock ID="p${p}_b${b}" ${position(
+            block.bbox
+          )}>\n${textBlocks}\n        </ComposedBlock>`;
+        })
+        .join('\n');
+      return `    <Page ID="page_${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${round(
+        page.width
+      )}" HEIGHT="${round(page.height)}">
+      <PrintSpace HPOS="0" VPOS="0" WIDTH="${round(
+        page.width
+      )}" HEIGHT="${round(page.height)}">
+${blocks}
+      </PrintSpace>
+    </Page>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+  <Description>
+    <MeasurementUnit>pixel</MeasurementUnit>
+    <sourceImageInformation>
+      <fileName>${escapeXml(fileName)}</fileName>
+    </sourceImageInformation>
+    <OCRProcessing ID="OCR_0">
+      <ocrProcessingStep>
+        <processingSoftware>
+          <softwareName>tesseract.js</softwareName>
+        </processingSoftware>
+      </ocrProcessingStep>
+    </OCRProcessing>
+  </Description>
+  <Layout>
+${layout}
+  </Layout>
+</alto>
+`;
+};
+
+/**
+ * hOCRのtitle属性から値を取得（例: "bbox 0 0 10 10; x_wconf 95"）
+ */
+const parseHOCRTitle = (title: string | null) => {
+  const props: Record<string, string> = {};
+  (title || '').split(';').forEach((part) => {
+    const [key, ...values] = part.trim().split(/\s+/);
+    if (key) props[key] = values.join(' ');
+  });
+
+  const bboxValues = (props.bbox || '').split(' ').map(Number);
+  const bbox =
+    bboxValues.length === 4 && bboxValues.every((v) => !isNaN(v))
+      ? {
+          x0: bboxValues[0],
+          y0: bboxValues[1],
+          x1: bboxValues[2],
+          y1: bboxValues[3],
+        }
+      : null;
+
+  const dpi = Number((props.scan_res || '').split(' ')[0]);
+
+  return {
+    bbox,
+    confidence: props.x_wconf !== undefined ? Number(props.x_wconf) : null,
+    pageNumber: props.ppageno !== undefined ? Number(props.ppageno) + 1 : null,
+    dpi: dpi > 0 ? dpi : null,
+  };
+};
+
+/**
+ * hOCRを解析
+ * HTMLとしては壊れていても読めてしまうため、ocr_page がなければエラーにする
+ */
+export const parseHOCR = (source: string): OCRFormatPage[] => {
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+  const byClass = (root: Element, className: string) =>
+    Array.from(root.querySelectorAll(`.${className}`));
+
+  const pageEls = byClass(doc.documentElement, 'ocr_page');
+  if (pageEls.length === 0) {
+    throw new Error('hOCRのページ（ocr_page）が見つかりません');
+  }
+
+  return pageEls.map((pageEl, index) => {
+    const pageTitle = parseHOCRTitle(pageEl.getAttribute('title'));
+
+    const parseWords = (lineEl: Element): OCRTreeNode[] =>
+      byClass(lineEl, 'ocrx_word')
+        .map((wordEl): OCRTreeNode | null => {
+          const title = parseHOCRTitle(wordEl.getAttribute('title'));
+          const text = (wordEl.textContent || '').trim();
+          if (!title.bbox || !text) return null;
+          return {
+            text,
+            confidence: title.confidence ?? 100,
+            bbox: title.bbox,
+            children: [],
+          };
+        })
+        .filter((word): word is OCRTreeNode => word !== null);
+
+    const parseLines = (parEl: Element): OCRTreeNode[] =>
+      Array.from(
+        parEl.querySelectorAll(
+          '.ocr_line, .ocr_textfloat, .ocr_header, .ocr_caption'
+        )
+      )
+        .map((lineEl) => {
+          const words = parseWords(lineEl);
+          if (words.length === 0) return null;
+          const title = parseHOCRTitle(lineEl.getAttribute('title'));
+          return createParentNode(words, ' ', title.bbox ?? undefined);
+        })
+        .filter((line): line is OCRTreeNode => line !== null);
+
+    const parseParagraphs = (blockEl: Element): OCRTreeNode[] => {
+      const parEls = byClass(blockEl, 'ocr_par');
+      return (parEls.length > 0 ? parEls : [blockEl])
+        .map((parEl) => {
+          const lines = parseLines(parEl);
+          if (lines.length === 0) return null;
+          const title = parseHOCRTitle(parEl.getAttribute('title'));
+          return createParentNode(lines, '\n', title.bbox ?? undefined);
+        })
+        .filter((paragraph): paragraph is OCRTreeNode => paragraph !== null);
+    };
+
+    const blockEls = byClass(pageEl, 'ocr_carea');
+    const blocks = (blockEls.length > 0 ? blockEls : [pageEl])
+      .map((blockEl) => {
+        const paragraphs = parseParagraphs(blockEl);
+        if (paragraphs.length === 0) return null;
+        const title = parseHOCRTitle(blockEl.getAttribute('title'));
+        return createParentNode(
+          paragraphs,
+          '\n\n',
+          blockEl === pageEl ? undefined : title.bbox ?? undefined
+        );
+      })
+      .filter((block): block is OCRTreeNode => block !== null);
+
+    return {
+      pageNumber: pageTitle.pageNumber ?? index + 1,
+      width: pageTitle.bbox ? pageTitle.bbox.x1 - pageTitle.bbox.x0 : 0,
+      height: pageTitle.bbox ? pageTitle.bbox.y1 - pageTitle.bbox.y0 : 0,
+      dpi: pageTitle.dpi ?? undefined,
+      blocks,
+    };
+  });
+};
+
+/**
+ * ALTO（v2〜v4）を解析
+ * 座標はMeasurementUnitに関わらずPageのWIDTH/HEIGHTとの比率で扱う
+ */
+export const parseALTO = (source: string): OCRFormatPage[] => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('ALTO XMLの解析に失敗しました');
+  }
+
+  const byTag = (root: Element, tag: string) =>
+    Array.from(root.getElementsByTagNameNS('*', tag));
+  const num = (el: Element, attr: string) => Number(el.getAttribute(attr) || 0);
+  const bboxOf = (el: Element): PixelBBox => {
+    const x0 = num(el, 'HPOS');
+    const y0 = num(el, 'VPOS');
+    return { x0, y0, x1: x0 + num(el, 'WIDTH'), y1: y0 + num(el, 'HEIGHT') };
+  };
+
+  return byTag(doc.documentElement, 'Page').map((pageEl, index) => {
+    const parseLine = (lineEl: Element): OCRTreeNode | null => {
+      const words = byTag(lineEl, 'String').map((stringEl) => ({
+        text: stringEl.getAttribute('CONTENT') || '',
+        confidence: stringEl.hasAttribute('WC')
+          ? num(stringEl, 'WC') * 100
+          : 100,
+        bbox: bboxOf(stringEl),
+        children: [],
+      }));
+      return words.length > 0
+        ? createParentNode(words, ' ', bboxOf(lineEl))
+        : null;
+    };
+
+    const parseTextBlock = (blockEl: Element): OCRTreeNode | null => {
+      const lines = byTag(blockEl, 'TextLine')
+        .map(parseLine)
+        .filter((line): line is OCRTreeNode => line !== null);
+      return lines.length > 0
+        ? createParentNode(lines, '\n', bboxOf(blockEl))
+        : null;
+    };
+
+    // ComposedBlockはblock、TextBlockはparagraphとして扱う
+    const paragraphsByBlock = new Map<Element, OCRTreeNode[]>();
+    byTag(pageEl, 'TextBlock').forEach((textBlockEl) => {
+      const paragraph = parseTextBlock(textBlockEl);
+      if (!paragraph) return;
+
+      const parent = textBlockEl.parentElement;
+      const blockEl =
+        parent?.localName === 'ComposedBlock' ? parent : textBlockEl;
+      paragraphsByBlock.set(blockEl, [
+        ...(paragraphsByBlock.get(blockEl) || []),
+        paragraph,
+      ]);
+    });
+
+    return {
+      pageNumber: pageEl.hasAttribute('PHYSICAL_IMG_NR')
+        ? num(pageEl, 'PHYSICAL_IMG_NR')
+        : index + 1,
+      width: num(pageEl, 'WIDTH'),
+      height: num(pageEl, 'HEIGHT'),
+      blocks: Array.from(paragraphsByBlock.entries()).map(
+        ([blockEl, paragraphs]) =>
+          createParentNode(paragraphs, '\n\n', bboxOf(blockEl))
+      ),
+    };
+  });
+};
+
+/**
+ * ページの座標を指定サイズ（解像度 targetDpi）の画像座標に拡大縮小
+ * ページのサイズがなければ解像度の比で拡大縮小し、どちらもなければエラーにする
+ */
+export const scaleOCRPage = (
+  page: OCRFormatPage,
+  targetWidth: number,
+  targetHeight: number,
+  targetDpi: number
+): OCRTreeNode[] => {
+  let scaleX: number;
+  let scaleY: number;
+  if (page.width > 0 && page.height > 0) {
+    scaleX = targetWidth / page.width;
+    scaleY = targetHeight / page.height;
+  } else if (page.dpi) {
+    scaleX = scaleY = targetDpi / page.dpi;
+  } else {
+    throw new Error(
+      `${page.pageNumber}ページ目のサイズと解像度がないため、座標を合わせられません`
+    );
+  }
+
+  const scaleNode = (node: OCRTreeNode): OCRTreeNode => ({
+    ...node,
+    bbox: {
+      x0: node.bbox.x0 * scaleX,
+      y0: node.bbox.y0 * scaleY,
+      x1: node.bbox.x1 * scaleX,
+      y1: node.bbox.y1 * scaleY,
+    },
+    children: node.children.map(scaleNode),
+  });
+
+  return page.blocks.map(scaleNode);
+};
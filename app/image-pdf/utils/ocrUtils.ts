@@ -1,4 +1,5 @@
 import type { CoordinateConversion } from './coordinateConversion';
+import type { OCRLanguage, OCRSettings, TextOrientation } from './types';
 
 // Tesseract.js の型定義
 interface TesseractBBox {
@@ -44,6 +45,8 @@ interface TesseractData {
 export interface OCRResult {
   text: string;
   confidence: number;
+  source?: 'pdf' | 'ocr' | 'mixed';
+  dpi?: number;
   words: OCRWord[];
   lines: OCRLine[];
   paragraphs: OCRParagraph[];
@@ -54,6 +57,7 @@ export interface OCRWord {
   id: string;
   text: string;
   confidence: number;
+  orientation?: TextOrientation;
   bbox: {
     original: { x0: number; y0: number; x1: number; y1: number };
     pt: CoordinateConversion['pt'] | null;
@@ -66,6 +70,7 @@ export interface OCRLine {
   id: string;
   text: string;
   confidence: number;
+  orientation?: TextOrientation;
   bbox: {
     original: { x0: number; y0: number; x1: number; y1: number };
     pt: CoordinateConversion['pt'] | null;
@@ -78,6 +83,7 @@ export interface OCRParagraph {
   id: string;
   text: string;
   confidence: number;
+  orientation?: TextOrientation;
   bbox: {
     original: { x0: number; y0: number; x1: number; y1: number };
     pt: CoordinateConversion['pt'] | null;
@@ -90,6 +96,7 @@ export interface OCRBlock {
   id: string;
   text: string;
   confidence: number;
+  orientation?: TextOrientation;
   bbox: {
     original: { x0: number; y0: number; x1: number; y1: number };
     pt: CoordinateConversion['pt'] | null;
@@ -98,6 +105,140 @@ export interface OCRBlock {
   };
 }
 
+type OCRItem = OCRWord | OCRLine | OCRParagraph | OCRBlock;
+
+// 高さが幅のこの倍率を超える行を縦書きとみなす
+const VERTICAL_ASPECT_RATIO = 1.5;
+
+const getCenterX = (item: OCRItem): number =>
+  (item.bbox.original.x0 + item.bbox.original.x1) / 2;
+
+// 要素の中心が領域内にあるか
+const isInsideItem = (item: OCRItem, container: OCRItem): boolean => {
+  const { x0, y0, x1, y1 } = item.bbox.original;
+  const centerX = (x0 + x1) / 2;
+  const centerY = (y0 + y1) / 2;
+  const box = container.bbox.original;
+  return (
+    centerX >= box.x0 &&
+    centerX <= box.x1 &&
+    centerY >= box.y0 &&
+    centerY <= box.y1
+  );
+};
+
+/**
+ * 行の形から縦書き・横書きを判定（1文字の行は判定に使わない）
+ */
+export const detectTextOrientation = (lines: OCRItem[]): TextOrientation => {
+  const measured = lines.filter((line) => line.text.trim().length > 1);
+  if (measured.length === 0) return 'horizontal';
+
+  const verticalCount = measured.filter(({ bbox: { original } }) => {
+    const width = original.x1 - original.x0;
+    const height = original.y1 - original.y0;
+    return height > width * VERTICAL_ASPECT_RATIO;
+  }).length;
+  return verticalCount * 2 > measured.length ? 'vertical' : 'horizontal';
+};
+
+/**
+ * 縦書きの行（列）を右から左の順に並べ替える
+ */
+const sortVerticalLines = <T extends OCRItem>(lines: T[]): T[] =>
+  [...lines].sort((a, b) => getCenterX(b) - getCenterX(a));
+
+const joinLines = (lines: OCRItem[]): string =>
+  lines
+    .map((line) => line.text.trim())
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * ブロックごとに縦書き・横書きを判定し、縦書きのブロックは行を右の列から読む順に組み直す
+ */
+export const applyTextOrientation = (result: OCRResult): OCRResult => {
+  // ブロック情報がなければページ全体を1つの領域として判定
+  const regions: OCRItem[] =
+    result.blocks.length > 0
+      ? result.blocks
+      : result.lines.length > 0
+      ? [
+          {
+            id: 'page',
+            text: result.text,
+            confidence: result.confidence,
+            bbox: {
+              original: {
+                x0: Math.min(...result.lines.map((l) => l.bbox.original.x0)),
+                y0: Math.min(...result.lines.map((l) => l.bbox.original.y0)),
+                x1: Math.max(...result.lines.map((l) => l.bbox.original.x1)),
+                y1: Math.max(...result.lines.map((l) => l.bbox.original.y1)),
+              },
+              pt: null,
+              px: null,
+              mm: null,
+            },
+          },
+        ]
+      : [];
+
+  const regionOrientations = regions.map((region) =>
+    detectTextOrientation(
+      result.lines.filter((line) => isInsideItem(line, region))
+    )
+  );
+  if (!regionOrientations.includes('vertical')) return result;
+
+  const getOrientation = (item: OCRItem): TextOrientation => {
+    const index = regions.findIndex((region) => isInsideItem(item, region));
+    return index >= 0 ? regionOrientations[index] : 'horizontal';
+  };
+
+  const lines = result.lines.map((line) => ({
+    ...line,
+    orientation: getOrientation(line),
+  }));
+
+  // 縦書き領域のテキストを行から組み直す
+  const withVerticalText = <T extends OCRParagraph | OCRBlock>(item: T): T => {
+    const orientation = getOrientation(item);
+    if (orientation === 'horizontal') return { ...item, orientation };
+    const inner = sortVerticalLines(
+      lines.filter((line) => isInsideItem(line, item))
+    );
+    return { ...item, orientation, text: joinLines(inner) || item.text };
+  };
+  const blocks = result.blocks.map(withVerticalText);
+
+  // 行はブロック順、縦書きブロック内は右の列から並べる
+  const orderedLines = regions.flatMap((region, index) => {
+    const inner = lines.filter((line) => isInsideItem(line, region));
+    return regionOrientations[index] === 'vertical'
+      ? sortVerticalLines(inner)
+      : inner;
+  });
+  const remainingLines = lines.filter((line) => !orderedLines.includes(line));
+
+  return {
+    ...result,
+    text:
+      blocks.length > 0
+        ? blocks
+            .map((block) => block.text.trim())
+            .filter(Boolean)
+            .join('\n\n')
+        : joinLines(orderedLines),
+    words: result.words.map((word) => ({
+      ...word,
+      orientation: getOrientation(word),
+    })),
+    lines: [...orderedLines, ...remainingLines],
+    paragraphs: result.paragraphs.map(withVerticalText),
+    blocks,
+  };
+};
+
 /**
  * Tesseract.jsの結果を構造化されたOCR結果に変換
  */
@@ -115,6 +256,7 @@ export const processOCRResult = (
   const result: OCRResult = {
     text: tesseractData.text || '',
     confidence: tesseractData.confidence || 0,
+    source: 'ocr',
     words: [],
     lines: [],
     paragraphs: [],
@@ -259,7 +401,7 @@ export const processOCRResult = (
     });
   }
 
-  return result;
+  return applyTextOrientation(result);
 };
 
 /**
@@ -282,14 +424,41 @@ export const getOCRDataByLevel = (
   }
 };
 
+export const OCR_LANGUAGE_LABELS: Record<OCRLanguage, string> = {
+  eng: 'English',
+  jpn: 'Japanese',
+  'eng+jpn': 'English + Japanese',
+  jpn_vert: 'Japanese (vertical)',
+  'jpn+jpn_vert': 'Japanese (horizontal + vertical)',
+};
+
 /**
  * OCR言語設定の検証
  */
 export const isValidOCRLanguage = (language: string): boolean => {
-  const validLanguages = ['eng', 'jpn', 'eng+jpn'];
-  return validLanguages.includes(language);
+  return language in OCR_LANGUAGE_LABELS;
 };
 
+/**
+ * OCR設定からTesseractに渡すパラメータを作成
+ */
+export const toTesseractParameters = (
+  settings: Pick<
+    OCRSettings,
+    | 'pageSegMode'
+    | 'charWhitelist'
+    | 'charBlacklist'
+    | 'preserveInterwordSpaces'
+    | 'userDpi'
+  >
+): Record<string, string> => ({
+  tessedit_pageseg_mode: settings.pageSegMode,
+  tessedit_char_whitelist: settings.charWhitelist,
+  tessedit_char_blacklist: settings.charBlacklist,
+  preserve_interword_spaces: settings.preserveInterwordSpaces ? '1' : '0',
+  user_defined_dpi: String(settings.userDpi),
+});
+
 /**
  * OCR信頼度に基づいてフィルタリング
  */
@@ -303,3 +472,146 @@ export const filterOCRResultsByConfidence = (
     return confidence >= minConfidence;
   });
 };
+
+/**
+ * 2つのOCR結果を結合（信頼度は単語数で加重平均）
+ */
+export const mergeOCRResults = (
+  base: OCRResult,
+  extra: OCRResult
+): OCRResult => {
+  const totalWords = base.words.length + extra.words.length;
+  const confidence =
+    totalWords > 0
+      ? (base.confidence * base.words.length +
+          extra.confidence * extra.words.length) /
+        totalWords
+      : 0;
+
+  return {
+    text: [base.text, extra.text].filter((text) => text.trim()).join('\n'),
+    confidence,
+    source: base.source === extra.source ? base.source : 'mixed',
+    dpi: base.dpi,
+    words: [...base.words, ...extra.words],
+    lines: [...base.lines, ...extra.lines],
+    paragraphs: [...base.paragraphs, ...extra.paragraphs],
+    blocks: [...base.blocks, ...extra.blocks],
+  };
+};
+
+type ImageRect = { x0: number; y0: number; x1: number; y1: number };
+
+/**
+ * 切り出し画像のOCR結果の画像座標（original）をページ画像の座標に戻す
+ */
+export const offsetOCRResult = (
+  result: OCRResult,
+  offsetX: number,
+  offsetY: number
+): OCRResult => {
+  const shift = <T extends OCRWord | OCRLine | OCRParagraph | OCRBlock>(
+    item: T
+  ): T => ({
+    ...item,
+    bbox: {
+      ...item.bbox,
+      original: {
+        x0: item.bbox.original.x0 + offsetX,
+        y0: item.bbox.original.y0 + offsetY,
+        x1: item.bbox.original.x1 + offsetX,
+        y1: item.bbox.original.y1 + offsetY,
+      },
+    },
+  });
+
+  return {
+    ...result,
+    words: result.words.map(shift),
+    lines: result.lines.map(shift),
+    paragraphs: result.paragraphs.map(shift),
+    blocks: result.blocks.map(shift),
+  };
+};
+
+/**
+ * 補正（回転・傾き補正）した画像のOCR結果の画像座標（original）を元画像の座標に戻す
+ */
+export const mapOCRResult = (
+  result: OCRResult,
+  mapRect: (rect: ImageRect) => ImageRect
+): OCRResult => {
+  const map = <T extends OCRWord | OCRLine | OCRParagraph | OCRBlock>(
+    item: T
+  ): T => ({
+    ...item,
+    bbox: { ...item.bbox, original: mapRect(item.bbox.original) },
+  });
+
+  return {
+    ...result,
+    words: result.words.map(map),
+    lines: result.lines.map(map),
+    paragraphs: result.paragraphs.map(map),
+    blocks: result.blocks.map(map),
+  };
+};
+
+/**
+ * 画像座標を別の解像度に合わせて拡大縮小（pt / px / mm は解像度に依存しないので変えない）
+ */
+export const rescaleOCRResult = (result: OCRResult, dpi: number): OCRResult => {
+  if (!result.dpi || result.dpi === dpi) return { ...result, dpi };
+
+  const scale = dpi / result.dpi;
+  return {
+    ...mapOCRResult(result, (rect) => ({
+      x0: rect.x0 * scale,
+      y0: rect.y0 * scale,
+      x1: rect.x1 * scale,
+      y1: rect.y1 * scale,
+    })),
+    dpi,
+  };
+};
+
+/**
+ * 指定領域（画像座標）内のOCR結果を、その領域だけを認識した結果で置き換える
+ */
+export const replaceOCRRegion = (
+  base: OCRResult,
+  regionResult: OCRResult,
+  region: ImageRect
+): OCRResult => {
+  // 中心が領域外にある要素だけを残す
+  const isOutside = (item: OCRWord | OCRLine | OCRParagraph | OCRBlock) => {
+    const { x0, y0, x1, y1 } = item.bbox.original;
+    const centerX = (x0 + x1) / 2;
+    const centerY = (y0 + y1) / 2;
+    return (
+      centerX < region.x0 ||
+      centerX > region.x1 ||
+      centerY < region.y0 ||
+      centerY > region.y1
+    );
+  };
+
+  const words = base.words.filter(isOutside);
+  const lines = base.lines.filter(isOutside);
+  const remaining: OCRResult = {
+    ...base,
+    text:
+      lines.length > 0
+        ? lines
+            .map((line) => line.text.trim())
+            .filter(Boolean)
+            .join('\n')
+        : words.map((word) => word.text).join(' '),
+    words,
+    lines,
+    paragraphs: base.paragraphs.filter(isOutside),
+    blocks: base.blocks.filter(isOutside),
+  };
+
+  return mergeOCRResults(remaining, regionResult);
+};
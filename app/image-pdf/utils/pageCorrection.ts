@@ -0,0 +1,230 @@
+import type { PageRotation, PageTransform } from './types';
+import { loadImage } from './imagePreprocessing';
+
+type ImageRect = { x0: number; y0: number; x1: number; y1: number };
+
+// 補正する傾きの上限（度）。これを超える角度の線は文字行・罫線とみなさない
+const MAX_SKEW_ANGLE = 10;
+// これ未満の傾きは補正しない（再サンプリングで文字がぼやけるため）
+const MIN_SKEW_ANGLE = 0.1;
+// 傾きの推定に必要な線の本数
+const MIN_SKEW_LINES = 3;
+// 傾きの推定は縮小した画像で行う
+const SKEW_ANALYSIS_WIDTH = 1200;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * 元画像を中心で時計回りに回転した補正画像との対応を作成
+ */
+export const createPageTransform = (
+  sourceWidth: number,
+  sourceHeight: number,
+  rotation: PageRotation = 0,
+  skewAngle: number = 0
+): PageTransform => {
+  const angle = toRadians(rotation + skewAngle);
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+
+  return {
+    rotation,
+    skewAngle,
+    sourceWidth,
+    sourceHeight,
+    // 回転後の画像全体が収まる大きさ
+    width: Math.round(sourceWidth * cos + sourceHeight * sin),
+    height: Math.round(sourceWidth * sin + sourceHeight * cos),
+  };
+};
+
+/**
+ * 補正画像の矩形を元画像の座標に戻す（回転した矩形の外接矩形）
+ */
+export const mapRectToSource = (
+  transform: PageTransform,
+  rect: ImageRect
+): ImageRect => {
+  if (transform.rotation === 0 && transform.skewAngle === 0) return rect;
+
+  const angle = toRadians(transform.rotation + transform.skewAngle);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const corners = [
+    [rect.x0, rect.y0],
+    [rect.x1, rect.y0],
+    [rect.x0, rect.y1],
+    [rect.x1, rect.y1],
+  ].map(([x, y]) => {
+    const dx = x - transform.width / 2;
+    const dy = y - transform.height / 2;
+    return {
+      x: dx * cos + dy * sin + transform.sourceWidth / 2,
+      y: -dx * sin + dy * cos + transform.sourceHeight / 2,
+    };
+  });
+
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  return {
+    x0: Math.max(0, Math.min(...xs)),
+    y0: Math.max(0, Math.min(...ys)),
+    x1: Math.min(transform.sourceWidth, Math.max(...xs)),
+    y1: Math.min(transform.sourceHeight, Math.max(...ys)),
+  };
+};
+
+/**
+ * 文字行・罫線の傾きを推定（度、右下がりが正）。OpenCVがなければ0
+ */
+export const estimateSkewAngle = (canvas: HTMLCanvasElement): number => {
+  const cv = window.cv;
+  if (!cv?.Mat) return 0;
+
+  const src = cv.imread(canvas);
+  const gray = new cv.Mat();
+  const small = new cv.Mat();
+  const bin = new cv.Mat();
+  const lines = new cv.Mat();
+  const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(15, 1));
+
+  try {
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
+    const scale = Math.min(1, SKEW_ANALYSIS_WIDTH / gray.cols);
+    cv.resize(
+      gray,
+      small,
+      new cv.Size(Math.round(gray.cols * scale), Math.round(gray.rows * scale)),
+      0,
+      0,
+      cv.INTER_AREA
+    );
+
+    // 文字を横方向につなげて行の塊にする
+    cv.threshold(small, bin, 0, 255, cv.THRESH_BINARY_INV + cv.THRESH_OTSU);
+    cv.morphologyEx(bin, bin, cv.MORPH_CLOSE, kernel);
+
+    cv.HoughLinesP(bin, lines, 1, Math.PI / 1800, 100, small.cols / 4, 20);
+
+    const angles: number[] = [];
+    for (let i = 0; i < lines.rows; i++) {
+      const [x1, y1, x2, y2] = lines.data32S.slice(i * 4, i * 4 + 4);
+      const angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+      if (Math.abs(angle) <= MAX_SKEW_ANGLE) angles.push(angle);
+    }
+    console.log(`[v0] Skew estimation found ${angles.length} lines`);
+    if (angles.length < MIN_SKEW_LINES) return 0;
+
+    // 外れ値に強い中央値を使う
+    angles.sort((a, b) => a - b);
+    return angles[Math.floor(angles.length / 2)];
+  } catch (error) {
+    console.warn('[v0] Skew estimation failed, skipping deskew:', error);
+    return 0;
+  } finally {
+    src.delete();
+    gray.delete();
+    small.delete();
+    bin.delete();
+    lines.delete();
+    kernel.delete();
+  }
+};
+
+// 元画像を補正画像の大きさのキャンバスに回転して描画
+const drawTransformed = (
+  img: HTMLImageElement,
+  transform: PageTransform
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  canvas.width = transform.width;
+  canvas.height = transform.height;
+  // 回転で生じる余白は白にする
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(toRadians(transform.rotation + transform.skewAngle));
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  return canvas;
+};
+
+/**
+ * ページ画像の向き（90度単位）と傾きを補正
+ * 戻り値の transform で補正画像の座標を元画像の座標に戻せる
+ */
+export const correctPageImage = (
+  imageSrc: string,
+  rotation: PageRotation,
+  deskew: boolean
+): Promise<{ imageUrl: string; transform: PageTransform }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        let transform = createPageTransform(img.width, img.height, rotation);
+
+        // 向きを直した画像で傾きを推定し、回転と合わせて一度に描画する
+        if (deskew) {
+          const skew = estimateSkewAngle(drawTransformed(img, transform));
+          if (Math.abs(skew) >= MIN_SKEW_ANGLE) {
+            transform = createPageTransform(
+              img.width,
+              img.height,
+              rotation,
+              -skew
+            );
+          }
+        }
+
+        console.log('[v0] Page correction:', {
+          rotation: transform.rotation,
+          skewAngle: transform.skewAngle,
+        });
+        if (transform.rotation === 0 && transform.skewAngle === 0) {
+          resolve({ imageUrl: imageSrc, transform });
+          return;
+        }
+
+        resolve({
+          imageUrl: drawTransformed(img, transform).toDataURL('image/png'),
+          transform,
+        });
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    img.onerror = () =>
+      reject(new Error('Failed to load image for page correction'));
+    img.src = imageSrc;
+  });
+};
+
+/**
+ * 既知の向きと傾きでページ画像を補正（OCR時の補正を表検出で再利用する）
+ * 解像度が違っても角度は同じなので、画像の大きさから transform を作り直す
+ */
+export const transformPageImage = async (
+  imageSrc: string,
+  rotation: PageRotation,
+  skewAngle: number
+): Promise<{ imageUrl: string; transform: PageTransform }> => {
+  const img = await loadImage(imageSrc);
+  const transform = createPageTransform(
+    img.width,
+    img.height,
+    rotation,
+    skewAngle
+  );
+  if (rotation === 0 && skewAngle === 0) {
+    return { imageUrl: imageSrc, transform };
+  }
+  return {
+    imageUrl: drawTransformed(img, transform).toDataURL('image/png'),
+    transform,
+  };
+};
@@ -0,0 +1,132 @@
+import type { PageGeometry, PageRotation, PDFDocumentInfo } from './types';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeRotation = (rotation: number): PageRotation =>
+  ((((Math.round(rotation / 90) * 90) % 360) + 360) % 360) as PageRotation;
+
+/**
+ * 表示座標（実寸のpt）に合わせたビューポートを取得
+ * pdf.js のビューポートは /UserUnit を反映しないため scale に掛ける
+ */
+export const getDisplayViewport = <
+  P extends {
+    getViewport: (params: { scale: number }) => unknown;
+    userUnit?: number;
+  }
+>(
+  page: P,
+  scale: number
+): ReturnType<P['getViewport']> =>
+  page.getViewport({ scale: scale * (page.userUnit ?? 1) }) as ReturnType<
+    P['getViewport']
+  >;
+
+/**
+ * pdf.js のページから表示座標とPDFユーザー空間の対応を取得
+ * ビューポートは CropBox と /Rotate を反映している
+ */
+export const getPageGeometry = async (
+  pdfDocument: PDFDocumentInfo['document'],
+  pageNum: number
+): Promise<PageGeometry> => {
+  const page = await pdfDocument.getPage(pageNum);
+  const viewport = page.getViewport({ scale: 1 });
+  const [x0, y0, x1, y1] = page.view as number[];
+  const userUnit = page.userUnit ?? 1;
+
+  return {
+    page: pageNum,
+    transform: Array.from(viewport.transform as number[]),
+    cropBox: [x0, y0, x1, y1],
+    rotation: normalizeRotation(page.rotate ?? 0),
+    userUnit,
+    width: viewport.width * userUnit,
+    height: viewport.height * userUnit,
+  };
+};
+
+/**
+ * 複数ページの対応をまとめて取得
+ */
+export const getPageGeometries = async (
+  pdfDocument: PDFDocumentInfo['document'],
+  pageNumbers: number[]
+): Promise<Record<number, PageGeometry>> => {
+  const geometries = await Promise.all(
+    Array.from(new Set(pageNumbers)).map((pageNum) =>
+      getPageGeometry(pdfDocument, pageNum)
+    )
+  );
+  return Object.fromEntries(
+    geometries.map((geometry) => [geometry.page, geometry])
+  );
+};
+
+/**
+ * 表示座標（pt、左上原点）の点をPDFユーザー空間の点に変換
+ * 変換行列はユーザー単位なので、先に /UserUnit で割る
+ */
+export const displayPointToUserSpace = (
+  geometry: PageGeometry,
+  x: number,
+  y: number
+): [number, number] => {
+  const [a, b, c, d, e, f] = geometry.transform;
+  const det = a * d - b * c;
+  const u = x / geometry.userUnit;
+  const v = y / geometry.userUnit;
+  return [(d * (u - e) - c * (v - f)) / det, (a * (v - f) - b * (u - e)) / det];
+};
+
+/**
+ * 表示座標（pt、左上原点）の矩形をPDFユーザー空間の矩形（左下原点）に変換
+ * 回転したページでは幅と高さが入れ替わる
+ */
+export const displayRectToUserSpace = (
+  geometry: PageGeometry,
+  rect: Rect
+): Rect => {
+  const corners = [
+    displayPointToUserSpace(geometry, rect.x, rect.y),
+    displayPointToUserSpace(
+      geometry,
+      rect.x + rect.width,
+      rect.y + rect.height
+    ),
+  ];
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+
+  return {
+    x: round(Math.min(...xs)),
+    y: round(Math.min(...ys)),
+    width: round(Math.max(...xs) - Math.min(...xs)),
+    height: round(Math.max(...ys) - Math.min(...ys)),
+  };
+};
+
+/**
+ * 表示座標の右向き（文字の進む向き）がPDFユーザー空間で何度になるか
+ */
+export const getTextAngle = (geometry: PageGeometry): number => {
+  const [a, b, c, d] = geometry.transform;
+  const det = a * d - b * c;
+  // 表示座標の (1, 0) を逆変換した向き（y軸の反転を含む）
+  return (Math.atan2(-b / det, d / det) * 180) / Math.PI;
+};
+
+/**
+ * PDFユーザー空間の矩形を、指定した枠（MediaBoxなど）の左上を原点とする矩形に変換
+ */
+export const userSpaceRectToTopLeft = (
+  rect: Rect,
+  box: { x: number; y: number; width: number; height: number }
+): Rect => ({
+  x: round(rect.x - box.x),
+  y: round(box.y + box.height - (rect.y + rect.height)),
+  width: rect.width,
+  height: rect.height,
+});
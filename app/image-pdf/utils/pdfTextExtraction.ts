@@ -0,0 +1,291 @@
+import { getDpiScale, type CoordinateConversion } from './coordinateConversion';
+import type { OCRResult, OCRWord } from './ocrUtils';
+import { getDisplayViewport } from './pageGeometry';
+
+// pdf.js の型定義（使用する部分のみ）
+interface PDFTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName?: string;
+  hasEOL?: boolean;
+}
+
+interface PDFTextContent {
+  items: Array<PDFTextItem | { type: string }>;
+  styles?: Record<string, { ascent?: number; descent?: number }>;
+}
+
+interface PDFViewport {
+  transform: number[];
+  scale: number;
+}
+
+export interface PDFPageLike {
+  getViewport: (params: { scale: number }) => PDFViewport;
+  userUnit?: number;
+  getTextContent: () => Promise<PDFTextContent>;
+  getOperatorList: () => Promise<{ fnArray: number[] }>;
+}
+
+interface ImageRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface PositionedText {
+  text: string;
+  rect: ImageRect;
+  baseline: number;
+  fontHeight: number;
+}
+
+type OCRTextItem = OCRWord;
+
+// PDFテキストは確実なので信頼度は常に100
+const PDF_TEXT_CONFIDENCE = 100;
+
+/**
+ * 2つの変換行列を合成（pdf.js の Util.transform と同等）
+ */
+const multiplyTransform = (m1: number[], m2: number[]): number[] => {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+};
+
+const isTextItem = (
+  item: PDFTextItem | { type: string }
+): item is PDFTextItem => 'str' in item;
+
+const unionRect = (rects: ImageRect[]): ImageRect => ({
+  x0: Math.min(...rects.map((r) => r.x0)),
+  y0: Math.min(...rects.map((r) => r.y0)),
+  x1: Math.max(...rects.map((r) => r.x1)),
+  y1: Math.max(...rects.map((r) => r.y1)),
+});
+
+/**
+ * 画像座標の矩形からOCR結果と同じ形式の要素を作成
+ */
+const createTextItem = (
+  id: string,
+  text: string,
+  rect: ImageRect,
+  convertToPDFCoords: (
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => CoordinateConversion | null
+): OCRTextItem => {
+  const coords = convertToPDFCoords(
+    rect.x0,
+    rect.y0,
+    Math.max(1, rect.x1 - rect.x0),
+    Math.max(1, rect.y1 - rect.y0)
+  );
+
+  return {
+    id,
+    text,
+    confidence: PDF_TEXT_CONFIDENCE,
+    bbox: {
+      original: rect,
+      pt: coords ? coords.pt : null,
+      px: coords ? coords.px : null,
+      mm: coords ? coords.mm : null,
+    },
+  };
+};
+
+/**
+ * テキスト要素をベースラインの近さで行にまとめる
+ */
+const groupIntoLines = (items: PositionedText[]): PositionedText[][] => {
+  const sorted = [...items].sort(
+    (a, b) => a.baseline - b.baseline || a.rect.x0 - b.rect.x0
+  );
+  const lines: PositionedText[][] = [];
+
+  sorted.forEach((item) => {
+    const line = lines[lines.length - 1];
+    const reference = line?.[0];
+    if (
+      reference &&
+      Math.abs(item.baseline - reference.baseline) <
+        Math.min(item.fontHeight, reference.fontHeight) * 0.5
+    ) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  return lines.map((line) => line.sort((a, b) => a.rect.x0 - b.rect.x0));
+};
+
+/**
+ * 行同士の縦の間隔が閾値（行の高さ比）以下なら同じグループにまとめる
+ */
+const groupLinesByGap = (
+  lines: OCRTextItem[],
+  gapRatio: number
+): OCRTextItem[][] => {
+  const groups: OCRTextItem[][] = [];
+
+  lines.forEach((line) => {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    if (previous) {
+      const prev = previous.bbox.original;
+      const curr = line.bbox.original;
+      const lineHeight = prev.y1 - prev.y0;
+      const gap = curr.y0 - prev.y1;
+      const overlapsHorizontally = curr.x0 < prev.x1 && curr.x1 > prev.x0;
+      if (gap < lineHeight * gapRatio && overlapsHorizontally) {
+        group.push(line);
+        return;
+      }
+    }
+    groups.push([line]);
+  });
+
+  return groups;
+};
+
+/**
+ * ページに画像が含まれているかを判定（スキャン画像上の文字はOCRが必要）
+ */
+export const pageHasImages = async (page: PDFPageLike): Promise<boolean> => {
+  const ops = window.pdfjsLib?.OPS;
+  if (!ops) return false;
+
+  const imageOps = [
+    ops.paintImageXObject,
+    ops.paintInlineImageXObject,
+    ops.paintImageXObjectRepeat,
+    ops.paintJpegXObject,
+  ].filter((op): op is number => typeof op === 'number');
+
+  const operatorList = await page.getOperatorList();
+  return operatorList.fnArray.some((fn) => imageOps.includes(fn));
+};
+
+/**
+ * pdf.js のテキストコンテンツをOCR結果と同じ構造に変換
+ * 座標はdpiでレンダリングした画像の座標を基準にする
+ */
+export const extractPDFTextData = async (
+  page: PDFPageLike,
+  convertToPDFCoords: (
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => CoordinateConversion | null,
+  dpi: number
+): Promise<OCRResult> => {
+  const viewport = getDisplayViewport(page, getDpiScale(dpi));
+  const textContent = await page.getTextContent();
+  const timestamp = Date.now();
+
+  // テキスト要素を画像座標に変換
+  const positioned: PositionedText[] = textContent.items
+    .filter(isTextItem)
+    .filter((item) => item.str.trim().length > 0)
+    .map((item) => {
+      const tx = multiplyTransform(viewport.transform, item.transform);
+      const fontHeight = Math.hypot(tx[2], tx[3]);
+      const style = item.fontName
+        ? textContent.styles?.[item.fontName]
+        : undefined;
+      const ascent = style?.ascent ?? 0.8;
+      const descent = style?.descent ?? -0.2;
+      const width = item.width * viewport.scale;
+
+      return {
+        text: item.str,
+        baseline: tx[5],
+        fontHeight,
+        rect: {
+          x0: tx[4],
+          y0: tx[5] - fontHeight * ascent,
+          x1: tx[4] + width,
+          y1: tx[5] - fontHeight * descent,
+        },
+      };
+    });
+
+  // 単語（テキスト要素内の位置は文字数で按分）
+  const words: OCRTextItem[] = [];
+  const lineItems = groupIntoLines(positioned);
+  const lines = lineItems.map((line, lineIndex) => {
+    const lineWords: OCRTextItem[] = [];
+
+    line.forEach((item) => {
+      const charWidth = (item.rect.x1 - item.rect.x0) / item.text.length;
+      for (const match of item.text.matchAll(/\S+/g)) {
+        const start = match.index ?? 0;
+        const word = createTextItem(
+          `pdf-word-${timestamp}-${words.length}`,
+          match[0],
+          {
+            x0: item.rect.x0 + charWidth * start,
+            y0: item.rect.y0,
+            x1: item.rect.x0 + charWidth * (start + match[0].length),
+            y1: item.rect.y1,
+          },
+          convertToPDFCoords
+        );
+        words.push(word);
+        lineWords.push(word);
+      }
+    });
+
+    return createTextItem(
+      `pdf-line-${timestamp}-${lineIndex}`,
+      lineWords.map((word) => word.text).join(' '),
+      unionRect(line.map((item) => item.rect)),
+      convertToPDFCoords
+    );
+  });
+
+  const createGroupItems = (
+    groups: OCRTextItem[][],
+    prefix: string
+  ): OCRTextItem[] =>
+    groups.map((group, index) =>
+      createTextItem(
+        `${prefix}-${timestamp}-${index}`,
+        group.map((line) => line.text).join('\n'),
+        unionRect(group.map((line) => line.bbox.original)),
+        convertToPDFCoords
+      )
+    );
+
+  const paragraphs = createGroupItems(
+    groupLinesByGap(lines, 1.0),
+    'pdf-paragraph'
+  );
+  const blocks = createGroupItems(groupLinesByGap(lines, 2.0), 'pdf-block');
+
+  return {
+    text: lines.map((line) => line.text).join('\n'),
+    confidence: words.length > 0 ? PDF_TEXT_CONFIDENCE : 0,
+    source: 'pdf',
+    dpi,
+    words,
+    lines,
+    paragraphs,
+    blocks,
+  };
+};
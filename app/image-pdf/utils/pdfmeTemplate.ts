@@ -0,0 +1,148 @@
+import { PDFDocument } from 'pdf-lib';
+import type {
+  BoundingBox,
+  FieldType,
+  PageGeometry,
+  PdfmeSchema,
+  PdfmeSchemaType,
+  PdfmeTemplate,
+} from './types';
+import { convertRectToUnits, convertToUnits } from './coordinateConversion';
+import { getDefaultFieldName, getUniqueFieldNames } from './boxFields';
+import { displayRectToUserSpace, userSpaceRectToTopLeft } from './pageGeometry';
+
+// フィールド型に対応するpdfmeのスキーマタイプ
+const FIELD_TYPE_TO_PDFME: Record<FieldType, PdfmeSchemaType> = {
+  text: 'text',
+  multilineText: 'text',
+  number: 'text',
+  date: 'date',
+  checkbox: 'checkbox',
+  image: 'image',
+  qrcode: 'qrcode',
+  barcode: 'code128',
+};
+
+/**
+ * mm値をpdfme用に小数点以下2桁へ丸める
+ */
+const roundMillimeters = (value: number): number => {
+  return Math.round(value * 100) / 100;
+};
+
+/**
+ * 境界ボックスのフィールド型・種類からpdfmeのスキーマタイプを決定
+ */
+export const getPdfmeSchemaType = (box: BoundingBox): PdfmeSchemaType => {
+  if (box.field) return FIELD_TYPE_TO_PDFME[box.field.type];
+  if (box.kind === 'table') {
+    if (box.id.includes('line')) return 'line';
+    if (box.id.includes('cell')) return 'text';
+    return 'rectangle';
+  }
+  return 'text';
+};
+
+/**
+ * 境界ボックスからpdfmeのフィールド名を生成
+ */
+export const getPdfmeFieldName = (box: BoundingBox, index: number): string => {
+  return box.field?.name.trim() || getDefaultFieldName(box, index);
+};
+
+/**
+ * 境界ボックスをpdfmeのスキーマに変換（座標はmm）
+ */
+export const convertBoundingBoxToPdfmeSchema = (
+  box: BoundingBox,
+  index: number
+): PdfmeSchema => {
+  const type = getPdfmeSchemaType(box);
+  const schema: PdfmeSchema = {
+    name: getPdfmeFieldName(box, index),
+    type,
+    position: {
+      x: roundMillimeters(convertToUnits(box.x, box.unit, 'mm')),
+      y: roundMillimeters(convertToUnits(box.y, box.unit, 'mm')),
+    },
+    width: roundMillimeters(convertToUnits(box.width, box.unit, 'mm')),
+    height: roundMillimeters(convertToUnits(box.height, box.unit, 'mm')),
+  };
+
+  if (type !== 'rectangle' && type !== 'line') {
+    schema.content = box.field?.defaultValue ?? '';
+  }
+
+  return schema;
+};
+
+/**
+ * 境界ボックス（表示座標）をpdfmeのページ座標（pt）に変換
+ * pdfmeは元のページをMediaBox全体・回転なしで埋め込むため、MediaBoxの左上を原点にする
+ */
+export const toPdfmePageBoxes = async (
+  pdfBytes: ArrayBuffer,
+  boundingBoxes: BoundingBox[],
+  geometryByPage: Record<number, PageGeometry>,
+  defaultPage: number = 1
+): Promise<BoundingBox[]> => {
+  const pages = (await PDFDocument.load(pdfBytes)).getPages();
+
+  return boundingBoxes.map((box) => {
+    const pageNum = box.page ?? defaultPage;
+    const geometry = geometryByPage[pageNum];
+    const page = pages[pageNum - 1];
+    if (!geometry || !page) return box;
+
+    const rect = displayRectToUserSpace(
+      geometry,
+      convertRectToUnits(box, box.unit, 'pt')
+    );
+    return {
+      ...box,
+      ...userSpaceRectToTopLeft(rect, page.getMediaBox()),
+      unit: 'pt',
+    };
+  });
+};
+
+/**
+ * PDFファイルをpdfmeのbasePdf用のData URIに変換
+ */
+export const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * 境界ボックスからpdfmeのTemplateを作成
+ * schemasはページごとの配列で、ページ番号のないボックスはdefaultPageに配置する
+ * pdfmeはスキーマ名の重複を扱えないため、同じ名前には連番を付ける
+ */
+export const createPdfmeTemplate = (
+  basePdf: string,
+  boundingBoxes: BoundingBox[],
+  totalPages: number,
+  defaultPage: number = 1
+): PdfmeTemplate => {
+  const schemas: PdfmeSchema[][] = Array.from(
+    { length: Math.max(totalPages, 1) },
+    () => []
+  );
+
+  const names = getUniqueFieldNames(boundingBoxes);
+  boundingBoxes.forEach((box, index) => {
+    const pageIndex = (box.page ?? defaultPage) - 1;
+    if (!schemas[pageIndex]) schemas[pageIndex] = [];
+    schemas[pageIndex].push({
+      ...convertBoundingBoxToPdfmeSchema(box, index),
+      name: names[index],
+    });
+  });
+
+  return { basePdf, schemas };
+};
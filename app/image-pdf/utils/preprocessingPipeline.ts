@@ -0,0 +1,223 @@
+import type {
+  PreprocessingPreset,
+  PreprocessingStep,
+  PreprocessingStepType,
+} from './types';
+import {
+  adjustBrightness,
+  adjustContrast,
+  applyAdaptiveThreshold,
+  applyGaussianBlur,
+  convertToGrayscale,
+  loadImage,
+  preprocessImageWithOpenCV,
+} from './imagePreprocessing';
+
+export interface PreprocessingParamDefinition {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+interface PreprocessingStepDefinition {
+  label: string;
+  params: PreprocessingParamDefinition[];
+}
+
+export const PREPROCESSING_STEP_DEFINITIONS: Record<
+  PreprocessingStepType,
+  PreprocessingStepDefinition
+> = {
+  grayscale: { label: 'Grayscale', params: [] },
+  brightness: {
+    label: 'Brightness',
+    params: [
+      {
+        key: 'amount',
+        label: 'Amount',
+        min: -100,
+        max: 100,
+        step: 1,
+        defaultValue: 10,
+      },
+    ],
+  },
+  contrast: {
+    label: 'Contrast',
+    params: [
+      {
+        key: 'amount',
+        label: 'Amount',
+        min: -0.9,
+        max: 0.9,
+        step: 0.05,
+        defaultValue: 0.2,
+      },
+    ],
+  },
+  gaussianBlur: {
+    label: 'Gaussian Blur',
+    params: [
+      {
+        key: 'radius',
+        label: 'Radius (px)',
+        min: 1,
+        max: 3,
+        step: 1,
+        defaultValue: 1,
+      },
+    ],
+  },
+  adaptiveThreshold: {
+    label: 'Adaptive Threshold',
+    params: [
+      {
+        key: 'blockSize',
+        label: 'Block Size (px)',
+        min: 3,
+        max: 51,
+        step: 2,
+        defaultValue: 11,
+      },
+      {
+        key: 'constant',
+        label: 'Constant',
+        min: 0,
+        max: 20,
+        step: 1,
+        defaultValue: 2,
+      },
+    ],
+  },
+  // 従来の「Enhance Image」と同じOpenCVの処理（ぼかし・コントラスト・二値化）
+  opencvEnhance: { label: 'OpenCV Enhance', params: [] },
+};
+
+/**
+ * 既定のパラメータで前処理ステップを作成
+ */
+export const createPreprocessingStep = (
+  type: PreprocessingStepType,
+  params: Record<string, number> = {}
+): PreprocessingStep => ({
+  id: `step-${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  enabled: true,
+  params: {
+    ...Object.fromEntries(
+      PREPROCESSING_STEP_DEFINITIONS[type].params.map((param) => [
+        param.key,
+        param.defaultValue,
+      ])
+    ),
+    ...params,
+  },
+});
+
+export const DEFAULT_PRESET_NAME = 'Default';
+
+export const BUILT_IN_PRESETS: PreprocessingPreset[] = [
+  {
+    name: DEFAULT_PRESET_NAME,
+    builtIn: true,
+    steps: [createPreprocessingStep('opencvEnhance')],
+  },
+  { name: 'None', builtIn: true, steps: [] },
+  {
+    name: 'Scanned Document',
+    builtIn: true,
+    steps: [
+      createPreprocessingStep('grayscale'),
+      createPreprocessingStep('contrast', { amount: 0.3 }),
+      createPreprocessingStep('gaussianBlur'),
+      createPreprocessingStep('adaptiveThreshold', {
+        blockSize: 15,
+        constant: 5,
+      }),
+    ],
+  },
+  {
+    name: 'Faint Text',
+    builtIn: true,
+    steps: [
+      createPreprocessingStep('grayscale'),
+      createPreprocessingStep('brightness', { amount: -20 }),
+      createPreprocessingStep('contrast', { amount: 0.5 }),
+    ],
+  },
+];
+
+// Canvas上で処理する前処理（OpenCVの処理以外）
+const applyPixelStep = (
+  step: PreprocessingStep,
+  imageData: ImageData
+): ImageData => {
+  switch (step.type) {
+    case 'grayscale':
+      return convertToGrayscale(imageData);
+    case 'brightness':
+      return adjustBrightness(imageData, step.params.amount);
+    case 'contrast':
+      return adjustContrast(imageData, step.params.amount);
+    case 'gaussianBlur':
+      return applyGaussianBlur(imageData, step.params.radius);
+    case 'adaptiveThreshold':
+      return applyAdaptiveThreshold(
+        imageData,
+        step.params.blockSize,
+        step.params.constant
+      );
+    default:
+      return imageData;
+  }
+};
+
+const imageToCanvas = async (imageSrc: string): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(imageSrc);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  canvas.width = img.width;
+  canvas.height = img.height;
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+/**
+ * 有効な前処理ステップを順番に適用
+ */
+export const applyPreprocessingSteps = async (
+  imageSrc: string,
+  steps: PreprocessingStep[]
+): Promise<string> => {
+  const enabledSteps = steps.filter((step) => step.enabled);
+  if (enabledSteps.length === 0) return imageSrc;
+
+  let canvas = await imageToCanvas(imageSrc);
+
+  for (const step of enabledSteps) {
+    if (step.type === 'opencvEnhance') {
+      const enhancedUrl = await preprocessImageWithOpenCV(
+        canvas.toDataURL('image/png'),
+        true
+      );
+      canvas = await imageToCanvas(enhancedUrl);
+      continue;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    ctx.putImageData(applyPixelStep(step, imageData), 0, 0);
+  }
+
+  console.log(
+    '[v0] Applied preprocessing steps:',
+    enabledSteps.map((step) => step.type)
+  );
+  return canvas.toDataURL('image/png');
+};
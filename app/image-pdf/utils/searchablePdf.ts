@@ -0,0 +1,86 @@
+import {
+  PDFDocument,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rotateAndSkewTextDegreesAndTranslate,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+import type { OCRTextData, PageGeometry } from './types';
+import { displayPointToUserSpace, getTextAngle } from './pageGeometry';
+import { embedGlyphlessFont } from './glyphlessFont';
+
+/**
+ * 元のPDFにOCR結果の不可視テキストレイヤーを追加
+ * 各単語はbbox.pt（表示座標、左上原点）の位置に、幅と高さを合わせて配置する
+ * 回転・CropBoxのあるページはページごとの対応でPDFユーザー空間に変換する
+ * 字形のないフォントを使うため、日本語を含むどの言語の文字も検索・選択できる
+ */
+export const createSearchablePDF = async (
+  pdfBytes: ArrayBuffer,
+  textDataByPage: Record<number, OCRTextData>,
+  geometryByPage: Record<number, PageGeometry>
+): Promise<{ bytes: Uint8Array; wordCount: number; skippedCount: number }> => {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const font = embedGlyphlessFont(pdfDoc);
+  const pages = pdfDoc.getPages();
+
+  let wordCount = 0;
+  let skippedCount = 0;
+
+  Object.entries(textDataByPage).forEach(([pageNumber, textData]) => {
+    const page = pages[Number(pageNumber) - 1];
+    const geometry = geometryByPage[Number(pageNumber)];
+    if (!page || !geometry) return;
+
+    const angle = getTextAngle(geometry);
+    const fontName = page.node.newFontDictionary('GlyphLessFont', font.ref);
+
+    textData.words.forEach((word) => {
+      const box = word.bbox.pt;
+      const text = word.text.trim();
+      if (!box || !text || box.width <= 0 || box.height <= 0) {
+        skippedCount++;
+        return;
+      }
+
+      // フォントの高さ（Ascent、Descentは0）をボックスの高さ（ユーザー単位）に合わせる
+      const fontSize = box.height / geometry.userUnit;
+      const squeeze =
+        (box.width /
+          geometry.userUnit /
+          font.widthOfTextAtSize(text, fontSize)) *
+        100;
+
+      // 表示上のベースライン（ボックスの下端）の始点をPDFユーザー空間に変換
+      const [x, y] = displayPointToUserSpace(
+        geometry,
+        box.x,
+        box.y + box.height
+      );
+
+      page.pushOperators(
+        pushGraphicsState(),
+        beginText(),
+        setFontAndSize(fontName, fontSize),
+        setTextRenderingMode(TextRenderingMode.Invisible),
+        setCharacterSqueeze(squeeze),
+        rotateAndSkewTextDegreesAndTranslate(angle, 0, 0, x, y),
+        showText(font.encodeText(text)),
+        endText(),
+        popGraphicsState()
+      );
+
+      wordCount++;
+    });
+  });
+
+  font.finalize();
+  const bytes = await pdfDoc.save();
+  return { bytes, wordCount, skippedCount };
+};
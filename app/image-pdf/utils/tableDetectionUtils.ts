@@ -1,4 +1,5 @@
 import type { CoordinateConversion } from './coordinateConversion';
+import type { BoundingBox, TableStructure, Unit } from './types';
 
 export interface TableRegion {
   x: number;
@@ -22,8 +23,33 @@ export interface TableCell {
   height: number;
   row: number;
   col: number;
+  rowSpan?: number;
+  colSpan?: number;
 }
 
+// 罫線のない表のグリッド（画像座標）
+export interface BorderlessTableGrid {
+  region: TableRegion;
+  horizontalLines: number[];
+  verticalLines: number[];
+}
+
+interface WordRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface TextRow {
+  top: number;
+  bottom: number;
+  segments: Array<{ x0: number; x1: number }>;
+}
+
+// 指定座標が罫線のピクセルかどうか
+export type LinePixelTest = (x: number, y: number) => boolean;
+
 /**
  * 画像データから水平線を検出
  */
@@ -116,6 +142,247 @@ export const filterLines = (
   return filtered;
 };
 
+/**
+ * 連続する線の位置（太い線）をその中央の1本にまとめる
+ */
+export const collapseLineRuns = (lines: number[]): number[] => {
+  const sorted = [...lines].sort((a, b) => a - b);
+  const collapsed: number[] = [];
+  let runStart = sorted[0];
+
+  sorted.forEach((line, i) => {
+    const next = sorted[i + 1];
+    if (next === undefined || next - line > 1) {
+      collapsed.push(Math.round((runStart + line) / 2));
+      runStart = next;
+    }
+  });
+
+  return collapsed;
+};
+
+/**
+ * RGBA画像データの暗いピクセルを罫線とみなす判定関数を作成
+ */
+export const createDarkPixelTest = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  threshold: number = 128
+): LinePixelTest => {
+  return (x, y) => {
+    if (x < 0 || x >= width || y < 0 || y >= height) return false;
+    const idx = (y * width + x) * 4;
+    return (data[idx] + data[idx + 1] + data[idx + 2]) / 3 < threshold;
+  };
+};
+
+/**
+ * 二値マスク（OpenCVのMatデータ）の白いピクセルを罫線とみなす判定関数を作成
+ */
+export const createMaskPixelTest = (
+  data: Uint8Array,
+  width: number,
+  height: number
+): LinePixelTest => {
+  return (x, y) => {
+    if (x < 0 || x >= width || y < 0 || y >= height) return false;
+    return data[y * width + x] > 0;
+  };
+};
+
+/**
+ * 領域内で指定の長さ以上の線がある位置を検出
+ */
+export const findLinePositions = (
+  isLinePixel: LinePixelTest,
+  orientation: 'horizontal' | 'vertical',
+  region: TableRegion,
+  minLineLength: number
+): number[] => {
+  const positions: number[] = [];
+  const [from, to, spanStart, spanEnd] =
+    orientation === 'horizontal'
+      ? [region.y, region.y + region.height, region.x, region.x + region.width]
+      : [region.x, region.x + region.width, region.y, region.y + region.height];
+
+  for (let p = from; p < to; p++) {
+    let count = 0;
+    for (let t = spanStart; t < spanEnd; t++) {
+      const hit =
+        orientation === 'horizontal' ? isLinePixel(t, p) : isLinePixel(p, t);
+      if (hit) count++;
+    }
+    if (count >= minLineLength) positions.push(p);
+  }
+
+  return collapseLineRuns(positions);
+};
+
+/**
+ * 2点間に罫線が引かれているかを判定
+ * 線の太さや傾きはtoleranceの範囲で吸収し、交点付近は判定から除外する
+ */
+export const hasLineSegment = (
+  isLinePixel: LinePixelTest,
+  orientation: 'horizontal' | 'vertical',
+  position: number,
+  start: number,
+  end: number,
+  tolerance: number = 4,
+  minCoverage: number = 0.6
+): boolean => {
+  const from = Math.round(start + tolerance * 2);
+  const to = Math.round(end - tolerance * 2);
+  if (to <= from) return true;
+
+  let covered = 0;
+  for (let t = from; t <= to; t++) {
+    for (let d = -tolerance; d <= tolerance; d++) {
+      const p = Math.round(position) + d;
+      const hit =
+        orientation === 'horizontal' ? isLinePixel(t, p) : isLinePixel(p, t);
+      if (hit) {
+        covered++;
+        break;
+      }
+    }
+  }
+
+  return covered / (to - from + 1) >= minCoverage;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+/**
+ * 単語を縦方向の中心で行にまとめ、行内の大きな空白で区切った文字列の塊に分ける
+ */
+const groupWordsIntoRows = (
+  words: WordRect[],
+  columnGap: number
+): TextRow[] => {
+  const sorted = [...words].sort((a, b) => a.y0 + a.y1 - (b.y0 + b.y1));
+  const lines: WordRect[][] = [];
+
+  sorted.forEach((word) => {
+    const line = lines[lines.length - 1];
+    const centerY = (word.y0 + word.y1) / 2;
+    if (
+      line &&
+      centerY > Math.min(...line.map((w) => w.y0)) &&
+      centerY < Math.max(...line.map((w) => w.y1))
+    ) {
+      line.push(word);
+    } else {
+      lines.push([word]);
+    }
+  });
+
+  return lines.map((line) => {
+    const segments: TextRow['segments'] = [];
+    [...line]
+      .sort((a, b) => a.x0 - b.x0)
+      .forEach((word) => {
+        const last = segments[segments.length - 1];
+        if (last && word.x0 - last.x1 < columnGap) {
+          last.x1 = Math.max(last.x1, word.x1);
+        } else {
+          segments.push({ x0: word.x0, x1: word.x1 });
+        }
+      });
+
+    return {
+      top: Math.min(...line.map((w) => w.y0)),
+      bottom: Math.max(...line.map((w) => w.y1)),
+      segments,
+    };
+  });
+};
+
+/**
+ * OCR単語の配置から罫線のない表を検出
+ * 空白で複数の塊に分かれる行が近い間隔で続く範囲を表とみなし、
+ * どの行の文字にも覆われないx座標の空白を列の区切りにする
+ */
+export const detectBorderlessTables = (
+  words: WordRect[],
+  columnGapRatio: number = 1.5,
+  rowGapRatio: number = 2.5,
+  minRows: number = 2
+): BorderlessTableGrid[] => {
+  const validWords = words.filter((w) => w.x1 > w.x0 && w.y1 > w.y0);
+  if (validWords.length === 0) return [];
+
+  const wordHeight = median(validWords.map((w) => w.y1 - w.y0));
+  const rows = groupWordsIntoRows(validWords, wordHeight * columnGapRatio);
+
+  // 複数の塊を持つ行が、行間の空きが小さいまま続く範囲を集める
+  const runs: TextRow[][] = [];
+  let current: TextRow[] = [];
+  rows.forEach((row) => {
+    const previous = current[current.length - 1];
+    const isTableRow = row.segments.length >= 2;
+    if (
+      isTableRow &&
+      (!previous || row.top - previous.bottom < wordHeight * rowGapRatio)
+    ) {
+      current.push(row);
+      return;
+    }
+    if (current.length > 0) runs.push(current);
+    current = isTableRow ? [row] : [];
+  });
+  if (current.length > 0) runs.push(current);
+
+  const padding = wordHeight * 0.25;
+
+  return runs
+    .filter((run) => run.length >= minRows)
+    .map((run) => {
+      // 全行の塊をx軸に投影し、覆われている区間を列とする
+      const columns: Array<{ x0: number; x1: number }> = [];
+      run
+        .flatMap((row) => row.segments)
+        .sort((a, b) => a.x0 - b.x0)
+        .forEach((segment) => {
+          const last = columns[columns.length - 1];
+          if (last && segment.x0 <= last.x1) {
+            last.x1 = Math.max(last.x1, segment.x1);
+          } else {
+            columns.push({ ...segment });
+          }
+        });
+
+      const verticalLines = [
+        columns[0].x0 - padding,
+        ...columns.slice(1).map((column, i) => (columns[i].x1 + column.x0) / 2),
+        columns[columns.length - 1].x1 + padding,
+      ].map(Math.round);
+
+      const horizontalLines = [
+        run[0].top - padding,
+        ...run.slice(1).map((row, i) => (run[i].bottom + row.top) / 2),
+        run[run.length - 1].bottom + padding,
+      ].map(Math.round);
+
+      return {
+        region: {
+          x: verticalLines[0],
+          y: horizontalLines[0],
+          width: verticalLines[verticalLines.length - 1] - verticalLines[0],
+          height:
+            horizontalLines[horizontalLines.length - 1] - horizontalLines[0],
+        },
+        horizontalLines,
+        verticalLines,
+      };
+    })
+    .filter((grid) => grid.verticalLines.length >= 3);
+};
+
 /**
  * 表領域を検出
  */
@@ -257,6 +524,180 @@ export const createCellsFromLines = (
   return cells;
 };
 
+/**
+ * 罫線のグリッドからセルを作成し、罫線のない境界を挟むセルを結合する
+ * 結合セルにはrowSpan/colSpanを設定する
+ */
+export const createMergedCellsFromLines = (
+  horizontalLines: number[],
+  verticalLines: number[],
+  isHorizontalLinePixel: LinePixelTest,
+  isVerticalLinePixel: LinePixelTest
+): TableCell[] => {
+  const rows = horizontalLines.length - 1;
+  const cols = verticalLines.length - 1;
+  if (rows < 1 || cols < 1) return [];
+
+  // グリッドのセルをUnion-Findで結合
+  const parent = Array.from({ length: rows * cols }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col;
+
+      // 右隣との間に縦線がなければ結合
+      if (
+        col < cols - 1 &&
+        !hasLineSegment(
+          isVerticalLinePixel,
+          'vertical',
+          verticalLines[col + 1],
+          horizontalLines[row],
+          horizontalLines[row + 1]
+        )
+      ) {
+        union(index, index + 1);
+      }
+
+      // 下隣との間に横線がなければ結合
+      if (
+        row < rows - 1 &&
+        !hasLineSegment(
+          isHorizontalLinePixel,
+          'horizontal',
+          horizontalLines[row + 1],
+          verticalLines[col],
+          verticalLines[col + 1]
+        )
+      ) {
+        union(index, index + cols);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  parent.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), index]);
+  });
+
+  const cells: TableCell[] = [];
+  groups.forEach((members) => {
+    const memberRows = members.map((index) => Math.floor(index / cols));
+    const memberCols = members.map((index) => index % cols);
+    const row = Math.min(...memberRows);
+    const col = Math.min(...memberCols);
+    const rowSpan = Math.max(...memberRows) - row + 1;
+    const colSpan = Math.max(...memberCols) - col + 1;
+
+    // 矩形にならない結合（L字など）はグリッド単位のセルに戻す
+    const parts =
+      rowSpan * colSpan === members.length
+        ? [{ row, col, rowSpan, colSpan }]
+        : members.map((index) => ({
+            row: Math.floor(index / cols),
+            col: index % cols,
+            rowSpan: 1,
+            colSpan: 1,
+          }));
+
+    parts.forEach((part) => {
+      cells.push({
+        x: verticalLines[part.col],
+        y: horizontalLines[part.row],
+        width: verticalLines[part.col + part.colSpan] - verticalLines[part.col],
+        height:
+          horizontalLines[part.row + part.rowSpan] - horizontalLines[part.row],
+        ...part,
+      });
+    });
+  });
+
+  return cells.sort((a, b) => a.row - b.row || a.col - b.col);
+};
+
+/**
+ * 罫線のグリッドとセルから表構造とセルの境界ボックスを作成
+ */
+export const createTableStructure = (
+  id: string,
+  horizontalLines: number[],
+  verticalLines: number[],
+  cells: TableCell[],
+  convertToPDFCoords: (
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => CoordinateConversion | null
+): { table: TableStructure; boxes: BoundingBox[] } | null => {
+  if (cells.length === 0) return null;
+
+  const left = verticalLines[0];
+  const top = horizontalLines[0];
+  const region = convertToPDFCoords(
+    left,
+    top,
+    verticalLines[verticalLines.length - 1] - left,
+    horizontalLines[horizontalLines.length - 1] - top
+  );
+  if (!region) return null;
+
+  const boxes: BoundingBox[] = [];
+  const tableCells: TableStructure['cells'] = [];
+
+  cells.forEach((cell) => {
+    const box = convertTableCellToBoundingBox(
+      cell,
+      convertToPDFCoords,
+      id,
+      'pt'
+    );
+    if (!box?.tableCell) return;
+
+    boxes.push(box);
+    tableCells.push({
+      ...box.tableCell,
+      id: `${id}-${cell.row}-${cell.col}`,
+      boxId: box.id,
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+    });
+  });
+
+  return {
+    table: {
+      id,
+      x: region.pt.x,
+      y: region.pt.y,
+      width: region.pt.width,
+      height: region.pt.height,
+      rowBoundaries: horizontalLines.map(
+        (y) => convertToPDFCoords(left, y, 1, 1)?.pt.y ?? 0
+      ),
+      columnBoundaries: verticalLines.map(
+        (x) => convertToPDFCoords(x, top, 1, 1)?.pt.x ?? 0
+      ),
+      rowCount: horizontalLines.length - 1,
+      columnCount: verticalLines.length - 1,
+      cells: tableCells,
+    },
+    boxes,
+  };
+};
+
 /**
  * 表領域を境界ボックス形式に変換
  */
@@ -269,7 +710,7 @@ export const convertTableRegionToBoundingBox = (
     height: number
   ) => CoordinateConversion | null,
   id: string,
-  unit: 'px' | 'mm' | 'pt'
+  unit: Unit
 ) => {
   const coords = convertToPDFCoords(
     region.x,
@@ -301,19 +742,27 @@ export const convertTableCellToBoundingBox = (
     width: number,
     height: number
   ) => CoordinateConversion | null,
-  unit: 'px' | 'mm' | 'pt'
+  tableId: string,
+  unit: Unit
 ) => {
   const coords = convertToPDFCoords(cell.x, cell.y, cell.width, cell.height);
   if (!coords) return null;
 
   return {
-    id: `cell-${Date.now()}-${cell.row}-${cell.col}`,
+    id: `cell-${tableId}-${cell.row}-${cell.col}`,
     x: coords.pt.x,
     y: coords.pt.y,
     width: coords.pt.width,
     height: coords.pt.height,
     unit,
     kind: 'table' as const,
+    tableCell: {
+      tableId,
+      row: cell.row,
+      col: cell.col,
+      rowSpan: cell.rowSpan ?? 1,
+      colSpan: cell.colSpan ?? 1,
+    },
   };
 };
 
@@ -329,7 +778,7 @@ export const convertTableLineToBoundingBox = (
     height: number
   ) => CoordinateConversion | null,
   id: string,
-  unit: 'px' | 'mm' | 'pt'
+  unit: Unit
 ) => {
   const width = line.type === 'horizontal' ? line.width || 1 : 1;
   const height = line.type === 'vertical' ? line.height || 1 : 1;
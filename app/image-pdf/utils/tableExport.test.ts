@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { tableToHTML } from './tableExport';
+import type { TableStructure, TableStructureCell } from './types';
+
+const cell = (
+  row: number,
+  col: number,
+  text: string,
+  colSpan: number = 1
+): TableStructureCell => ({
+  id: `cell-${row}-${col}`,
+  boxId: `box-${row}-${col}`,
+  tableId: 'table',
+  row,
+  col,
+  rowSpan: 1,
+  colSpan,
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  text,
+});
+
+describe('tableToHTML', () => {
+  it('どのセルにも含まれない位置は空のセルにする', () => {
+    const table: TableStructure = {
+      id: 'table',
+      x: 0,
+      y: 0,
+      width: 30,
+      height: 20,
+      rowBoundaries: [0, 10, 20],
+      columnBoundaries: [0, 10, 20, 30],
+      rowCount: 2,
+      columnCount: 3,
+      // 2行目の1列目のセルは削除済み
+      cells: [
+        cell(0, 0, 'a', 2),
+        cell(0, 2, 'b'),
+        cell(1, 1, 'd'),
+        cell(1, 2, 'e'),
+      ],
+    };
+
+    const rows = tableToHTML(table, 'title')
+      .split('<tr>')
+      .slice(1)
+      .map((row) => row.match(/<td[^>]*>[^<]*<\/td>/g));
+
+    expect(rows).toEqual([
+      ['<td colspan="2">a</td>', '<td>b</td>'],
+      ['<td></td>', '<td>d</td>', '<td>e</td>'],
+    ]);
+  });
+});
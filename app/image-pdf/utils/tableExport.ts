@@ -0,0 +1,98 @@
+import { Workbook } from 'exceljs';
+import type { TableStructure } from './types';
+import { tableToMatrix } from './tableText';
+
+const escapeCSV = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const escapeHTML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * 表をCSVに変換（結合セルは左上のセルにのみ値を入れる）
+ */
+export const tableToCSV = (table: TableStructure): string =>
+  tableToMatrix(table)
+    .map((row) => row.map((value) => escapeCSV(value ?? '')).join(','))
+    .join('\r\n');
+
+/**
+ * 表をcolspan/rowspan付きのHTMLに変換
+ * どのセルにも含まれない位置（削除したセルなど）は空のセルにする
+ */
+export const tableToHTML = (table: TableStructure, title: string): string => {
+  const matrix = tableToMatrix(table);
+  const rows = matrix.map((values, row) => {
+    const cells = values.flatMap((value, col) => {
+      // 結合セルに含まれる位置は出力しない
+      if (value === null) return [];
+      const cell = table.cells.find(
+        (candidate) => candidate.row === row && candidate.col === col
+      );
+      const spans = cell
+        ? [
+            cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '',
+            cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : '',
+          ].join('')
+        : '';
+      const text = escapeHTML(value).replace(/\n/g, '<br>');
+      return [`      <td${spans}>${text}</td>`];
+    });
+    return ['    <tr>', ...cells, '    </tr>'].join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHTML(title)}</title>`,
+    '  <style>table{border-collapse:collapse}td{border:1px solid #000;padding:4px;vertical-align:top}</style>',
+    '</head>',
+    '<body>',
+    '  <table>',
+    ...rows,
+    '  </table>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * 表を結合セル付きのXLSXに変換
+ */
+export const tableToXLSX = async (
+  table: TableStructure,
+  sheetName: string
+): Promise<ArrayBuffer> => {
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName.slice(0, 31));
+
+  tableToMatrix(table).forEach((row, rowIndex) => {
+    row.forEach((value, colIndex) => {
+      if (value !== null) {
+        const excelCell = sheet.getCell(rowIndex + 1, colIndex + 1);
+        excelCell.value = value;
+        excelCell.alignment = { vertical: 'top', wrapText: true };
+      }
+    });
+  });
+
+  table.cells
+    .filter((cell) => cell.rowSpan > 1 || cell.colSpan > 1)
+    .forEach((cell) => {
+      sheet.mergeCells(
+        cell.row + 1,
+        cell.col + 1,
+        cell.row + cell.rowSpan,
+        cell.col + cell.colSpan
+      );
+    });
+
+  return workbook.xlsx.writeBuffer();
+};
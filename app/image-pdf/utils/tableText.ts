@@ -0,0 +1,181 @@
+import type { OCRTextData, TableStructure } from './types';
+
+export type OCRWordItem = OCRTextData['words'][number];
+
+export interface PtRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// セルや領域に割り当てるために必要な単語面積の重なり率
+export const MIN_WORD_OVERLAP = 0.5;
+
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+export const getOverlapArea = (a: PtRect, b: PtRect): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+};
+
+/**
+ * 単語を結合（日本語どうしの間には空白を入れない）
+ */
+const joinWords = (words: string[]): string =>
+  words.reduce((text, word) => {
+    if (!text) return word;
+    const needsSpace = !(
+      CJK_PATTERN.test(text.slice(-1)) && CJK_PATTERN.test(word[0])
+    );
+    return text + (needsSpace ? ' ' : '') + word;
+  }, '');
+
+// 位置（pt）のある単語のテキストと位置
+interface PlacedWord {
+  text: string;
+  box: PtRect;
+}
+
+const toPlacedWords = (words: OCRWordItem[]): PlacedWord[] =>
+  words.flatMap((word) =>
+    word.bbox.pt ? [{ text: word.text.trim(), box: word.bbox.pt }] : []
+  );
+
+// 縦書きの単語を列にまとめ、右の列から上から下へ読む
+const toVerticalReadingOrderText = (words: PlacedWord[]): string => {
+  const sorted = [...words].sort(
+    (a, b) => b.box.x + b.box.width - (a.box.x + a.box.width)
+  );
+  const columns: PlacedWord[][] = [];
+
+  sorted.forEach((word) => {
+    const centerX = word.box.x + word.box.width / 2;
+    const column = columns.find((candidate) => {
+      const first = candidate[0].box;
+      return Math.abs(first.x + first.width / 2 - centerX) < first.width / 2;
+    });
+    if (column) {
+      column.push(word);
+    } else {
+      columns.push([word]);
+    }
+  });
+
+  return columns
+    .map((column) =>
+      joinWords(
+        column
+          .sort((a, b) => a.box.y - b.box.y)
+          .map((word) => word.text)
+          .filter(Boolean)
+      )
+    )
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * 領域内の単語を読み順（上の行から、行内は左から）に並べてテキスト化
+ * 縦書きの単語が過半数なら右の列から読む。位置のない単語は除く
+ */
+export const toReadingOrderText = (items: OCRWordItem[]): string => {
+  const verticalCount = items.filter(
+    (word) => word.orientation === 'vertical'
+  ).length;
+  const words = toPlacedWords(items);
+  if (verticalCount * 2 > items.length) {
+    return toVerticalReadingOrderText(words);
+  }
+
+  const sorted = [...words].sort((a, b) => a.box.y - b.box.y);
+  const lines: PlacedWord[][] = [];
+
+  sorted.forEach((word) => {
+    const centerY = word.box.y + word.box.height / 2;
+    const line = lines.find((candidate) => {
+      const first = candidate[0].box;
+      return Math.abs(first.y + first.height / 2 - centerY) < first.height / 2;
+    });
+    if (line) {
+      line.push(word);
+    } else {
+      lines.push([word]);
+    }
+  });
+
+  return lines
+    .map((line) =>
+      joinWords(
+        line
+          .sort((a, b) => a.box.x - b.box.x)
+          .map((word) => word.text)
+          .filter(Boolean)
+      )
+    )
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * OCRの単語をpt座標の重なりで表のセルに割り当て、各セルのテキストを設定
+ */
+export const fillTableWithOCRText = (
+  table: TableStructure,
+  textData: OCRTextData | null
+): TableStructure => {
+  const wordsByCell = new Map<string, OCRWordItem[]>();
+
+  textData?.words.forEach((word) => {
+    const box = word.bbox.pt;
+    if (!box || box.width <= 0 || box.height <= 0) return;
+
+    // 最も重なりの大きいセルに割り当てる
+    let bestCellId: string | null = null;
+    let bestOverlap = box.width * box.height * MIN_WORD_OVERLAP;
+    table.cells.forEach((cell) => {
+      const overlap = getOverlapArea(box, cell);
+      if (overlap >= bestOverlap) {
+        bestCellId = cell.id;
+        bestOverlap = overlap;
+      }
+    });
+
+    if (bestCellId) {
+      wordsByCell.set(bestCellId, [
+        ...(wordsByCell.get(bestCellId) || []),
+        word,
+      ]);
+    }
+  });
+
+  return {
+    ...table,
+    cells: table.cells.map((cell) => ({
+      ...cell,
+      text: toReadingOrderText(wordsByCell.get(cell.id) || []),
+    })),
+  };
+};
+
+/**
+ * 表を行×列の2次元配列に展開（結合セルの左上以外はnull）
+ */
+export const tableToMatrix = (table: TableStructure): (string | null)[][] => {
+  const matrix: (string | null)[][] = Array.from(
+    { length: table.rowCount },
+    () => Array.from({ length: table.columnCount }, () => '')
+  );
+
+  table.cells.forEach((cell) => {
+    for (let r = cell.row; r < cell.row + cell.rowSpan; r++) {
+      for (let c = cell.col; c < cell.col + cell.colSpan; c++) {
+        if (matrix[r] && c < table.columnCount) matrix[r][c] = null;
+      }
+    }
+    matrix[cell.row][cell.col] = cell.text ?? '';
+  });
+
+  return matrix;
+};
@@ -1,15 +1,148 @@
 import type { CoordinateConversion } from './coordinateConversion';
 
-export type Unit = 'px' | 'mm' | 'pt';
+export type Unit = 'px' | 'mm' | 'cm' | 'in' | 'pt' | 'twip' | 'emu';
+
+// 出力する座標の原点（bottom-left はPDFと同じくY軸が上向き）
+export type CoordinateOrigin = 'top-left' | 'bottom-left';
 
 export type OCRLevel = 'word' | 'line' | 'paragraph' | 'block';
 
-export type OCRLanguage = 'eng' | 'jpn' | 'eng+jpn';
+// jpn_vert: 縦書きの日本語
+export type OCRLanguage =
+  | 'eng'
+  | 'jpn'
+  | 'eng+jpn'
+  | 'jpn_vert'
+  | 'jpn+jpn_vert';
+
+// 文字の並ぶ向き（縦書きは右の列から左へ読む）
+export type TextOrientation = 'horizontal' | 'vertical';
+
+// OCR・表検出の前に適用する画像前処理の種類
+export type PreprocessingStepType =
+  | 'grayscale'
+  | 'brightness'
+  | 'contrast'
+  | 'gaussianBlur'
+  | 'adaptiveThreshold'
+  | 'opencvEnhance';
+
+// 前処理の1ステップ（params のキーは種類ごとの定義に従う）
+export interface PreprocessingStep {
+  id: string;
+  type: PreprocessingStepType;
+  enabled: boolean;
+  params: Record<string, number>;
+}
+
+export interface PreprocessingPreset {
+  name: string;
+  steps: PreprocessingStep[];
+  // 組み込みのプリセットは上書き・削除できない
+  builtIn?: boolean;
+}
+
+// ページの向きの補正量（時計回りの角度）
+export type PageRotation = 0 | 90 | 180 | 270;
+
+// OCR・表検出の前に行うページ画像の補正
+export interface PageCorrectionSettings {
+  // Tesseractの向き検出（OSD）で90度単位の回転を補正
+  autoRotate: boolean;
+  // 文字行・罫線の傾きを推定して補正
+  deskew: boolean;
+}
+
+// 補正後の画像と元画像の対応（補正画像は元画像を中心で時計回りに angle 度回転したもの）
+export interface PageTransform {
+  rotation: PageRotation;
+  // 傾き補正の角度（度、時計回りが正）
+  skewAngle: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  width: number;
+  height: number;
+}
+
+// PDFページの表示座標（pdf.js のビューポート、左上原点）とPDFユーザー空間の対応
+export interface PageGeometry {
+  page: number;
+  // scale 1 のビューポート変換行列（PDFユーザー空間 → 表示座標、/UserUnit は含まない）
+  transform: number[];
+  // 表示領域（CropBox、PDFユーザー空間の [x0, y0, x1, y1]）
+  cropBox: [number, number, number, number];
+  rotation: PageRotation;
+  // 1ユーザー単位あたりのpt（/UserUnit、既定は1）
+  userUnit: number;
+  // 回転後の表示サイズ（pt、/UserUnit を反映）
+  width: number;
+  height: number;
+}
+
+// Tesseractのページ分割モード（PSM、tessedit_pageseg_mode の値）
+export type TesseractPageSegMode =
+  | '1'
+  | '3'
+  | '4'
+  | '5'
+  | '6'
+  | '7'
+  | '8'
+  | '9'
+  | '10'
+  | '11'
+  | '12'
+  | '13';
 
-export type TableDetectionMode = 'table' | 'cells' | 'lines';
+// Tesseractのエンジンモード（OEM）0: レガシー, 1: LSTM, 2: 両方, 3: 既定
+export type TesseractEngineMode = 0 | 1 | 2 | 3;
+
+// auto: PDFのテキストを優先し、テキストのないページ・領域のみOCR
+export type OCRTextSource = 'auto' | 'pdf' | 'ocr';
+
+export type TableDetectionMode = 'table' | 'cells' | 'lines' | 'borderless';
 
 export type BoundingBoxKind = 'manual' | 'ocr' | 'table';
 
+// フォームフィールドとしての型
+export type FieldType =
+  | 'text'
+  | 'multilineText'
+  | 'number'
+  | 'date'
+  | 'checkbox'
+  | 'image'
+  | 'qrcode'
+  | 'barcode';
+
+// ボックスをフォームフィールドとして扱うためのメタデータ
+export interface BoxField {
+  name: string;
+  type: FieldType;
+  defaultValue?: string;
+  properties: Record<string, string>;
+}
+
+// ゾーンOCRでボックス内から抽出した値
+export interface ZonalValue {
+  boxId: string;
+  name: string;
+  page: number;
+  text: string;
+  // 単語の信頼度を文字数で重み付けした平均
+  confidence: number;
+  wordCount: number;
+}
+
+// 表セルのボックスが属する表と位置
+export interface TableCellRef {
+  tableId: string;
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
 export interface BoundingBox {
   id: string;
   x: number;
@@ -18,8 +151,60 @@ export interface BoundingBox {
   height: number;
   unit: Unit;
   kind?: BoundingBoxKind;
+  page?: number;
+  tableCell?: TableCellRef;
+  field?: BoxField;
+}
+
+// 罫線のグリッドから復元した表構造（座標はすべてpt）
+export interface TableStructureCell extends TableCellRef {
+  id: string;
+  boxId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
 }
 
+export type TableExportFormat = 'csv' | 'xlsx' | 'html';
+
+export interface TableStructure {
+  id: string;
+  page?: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rowBoundaries: number[];
+  columnBoundaries: number[];
+  rowCount: number;
+  columnCount: number;
+  cells: TableStructureCell[];
+  // 検出に使った画像の解像度
+  dpi?: number;
+}
+
+export interface TableDetectionResult {
+  boxes: BoundingBox[];
+  tables: TableStructure[];
+}
+
+// 選択したボックスの移動（move）とリサイズハンドル（方角）
+export type BoxEditHandle =
+  | 'move'
+  | 'n'
+  | 's'
+  | 'e'
+  | 'w'
+  | 'ne'
+  | 'nw'
+  | 'se'
+  | 'sw';
+
+// ビューアの表示倍率の合わせ方（null は倍率を固定）
+export type ViewerFitMode = 'width' | 'page';
+
 export interface Point {
   x: number;
   y: number;
@@ -36,22 +221,54 @@ export interface PDFDocumentInfo {
     height: number;
   } | null;
   isLoaded: boolean;
+  // ページを画像に描画する解像度
+  renderDpi: number;
+  // 表示中のページ画像を描画した解像度（画像とptの変換はこの値を使う）
+  // renderDpi を変更してから再描画が終わるまでは renderDpi と異なる
+  imageDpi: number;
+  // 現在のページの表示サイズ（pt、回転・CropBox適用後）
+  pageSize: {
+    width: number;
+    height: number;
+  } | null;
 }
 
 export interface OCRSettings {
   language: OCRLanguage;
   level: OCRLevel;
   minConfidence: number;
-  enhanceImage: boolean;
+  textSource: OCRTextSource;
+  pageSegMode: TesseractPageSegMode;
+  engineMode: TesseractEngineMode;
+  charWhitelist: string;
+  charBlacklist: string;
+  preserveInterwordSpaces: boolean;
+  // 画像の解像度としてTesseractに伝えるDPI
+  userDpi: number;
+}
+
+// Tesseractワーカーの進捗（statusはTesseract.jsのログの状態名）
+export interface OCRProgress {
+  status: string;
+  progress: number;
 }
 
+// 選択したボックスだけを認識する際の設定（ページ全体のOCR設定とは別）
+export type RegionOCRSettings = Pick<OCRSettings, 'language' | 'level'>;
+
 export interface OCRTextData {
   text: string;
   confidence: number;
+  source?: 'pdf' | 'ocr' | 'mixed';
+  // bbox.original の画像座標の解像度
+  dpi?: number;
+  // OCR時に適用したページ補正（bbox.original は補正前の画像座標）
+  transform?: PageTransform;
   words: Array<{
     id: string;
     text: string;
     confidence: number;
+    orientation?: TextOrientation;
     bbox: {
       original: { x0: number; y0: number; x1: number; y1: number };
       pt: CoordinateConversion['pt'] | null;
@@ -63,6 +280,7 @@ export interface OCRTextData {
     id: string;
     text: string;
     confidence: number;
+    orientation?: TextOrientation;
     bbox: {
       original: { x0: number; y0: number; x1: number; y1: number };
       pt: CoordinateConversion['pt'] | null;
@@ -74,6 +292,7 @@ export interface OCRTextData {
     id: string;
     text: string;
     confidence: number;
+    orientation?: TextOrientation;
     bbox: {
       original: { x0: number; y0: number; x1: number; y1: number };
       pt: CoordinateConversion['pt'] | null;
@@ -85,6 +304,7 @@ export interface OCRTextData {
     id: string;
     text: string;
     confidence: number;
+    orientation?: TextOrientation;
     bbox: {
       original: { x0: number; y0: number; x1: number; y1: number };
       pt: CoordinateConversion['pt'] | null;
@@ -94,26 +314,94 @@ export interface OCRTextData {
   }>;
 }
 
+export type OCRPageStatus =
+  | 'pending'
+  | 'processing'
+  | 'done'
+  | 'error'
+  | 'cancelled';
+
+export interface BatchOCRProgress {
+  pages: number[];
+  currentPage: number | null;
+  pageProgress: number;
+  completed: number;
+  statuses: Record<number, OCRPageStatus>;
+}
+
+export interface RenderedPageImage {
+  imageDataUrl: string;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+  dpi: number;
+  // ページの表示サイズ（pt）
+  pageSize: {
+    width: number;
+    height: number;
+  };
+}
+
 export interface ExportData {
   filename: string;
-  page: number;
+  totalPages: number;
   dpi: number;
   timestamp: string;
   metadata: {
     ocrLanguage: OCRLanguage;
     ocrLevel: OCRLevel;
     ocrMinConfidence: number;
-    ocrEnhanceImage: boolean;
+    preprocessingSteps: PreprocessingStep[];
+    ocrTextSource: OCRTextSource;
+    ocrPageSegMode: TesseractPageSegMode;
+    ocrEngineMode: TesseractEngineMode;
+    ocrCharWhitelist: string;
+    ocrCharBlacklist: string;
+    ocrPreserveInterwordSpaces: boolean;
+    ocrUserDpi: number;
     totalBoundingBoxes: number;
+    coordinateOrigin: CoordinateOrigin;
   };
-  boundingBoxes: Array<{
-    id: string;
-    index: number;
-    kind?: BoundingBoxKind;
-    pt: CoordinateConversion['pt'];
-    px: CoordinateConversion['px'];
-    mm: CoordinateConversion['mm'];
-  }>;
+  // ボックスのあるページの表示座標とPDFユーザー空間の対応
+  pages: PageGeometry[];
+  // 座標はすべての単位（Unit）で出力する
+  boundingBoxes: Array<
+    {
+      id: string;
+      index: number;
+      page: number;
+      kind?: BoundingBoxKind;
+      field: BoxField;
+      // PDFユーザー空間（左下原点、回転・CropBox適用前）の座標
+      pdf: CoordinateConversion['pt'] | null;
+    } & Record<Unit, CoordinateConversion['pt']>
+  >;
+}
+
+// pdfme Template（@pdfme/common の Template と互換の最小定義）
+export type PdfmeSchemaType =
+  | 'text'
+  | 'rectangle'
+  | 'line'
+  | 'date'
+  | 'checkbox'
+  | 'image'
+  | 'qrcode'
+  | 'code128';
+
+export interface PdfmeSchema {
+  name: string;
+  type: PdfmeSchemaType;
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  content?: string;
+}
+
+export interface PdfmeTemplate {
+  basePdf: string;
+  schemas: PdfmeSchema[][];
 }
 
 // Global type declarations for external libraries
@@ -0,0 +1,72 @@
+// public/vendor に配置したエンジンのバージョン（package.json で固定したものと揃える）
+// ファイルは npm install 時に scripts/copy-vendor-assets.mjs がコピーする
+export const PDFJS_VERSION = '3.11.174';
+export const TESSERACT_VERSION = '5.0.0';
+export const TESSERACT_CORE_VERSION = '5.0.0';
+export const TESSDATA_VERSION = '4.0.0_best_int';
+// レガシーエンジン（OEM 0 / 2 / 3）用の学習データ
+export const TESSDATA_LEGACY_VERSION = '4.0.0';
+export const OPENCV_VERSION = '4.8.0-release.10';
+
+const VENDOR_BASE = '/vendor';
+
+export const VENDOR_ASSETS = {
+  pdfjs: {
+    script: `${VENDOR_BASE}/pdfjs-${PDFJS_VERSION}/pdf.min.js`,
+    worker: `${VENDOR_BASE}/pdfjs-${PDFJS_VERSION}/pdf.worker.min.js`,
+    cMaps: `${VENDOR_BASE}/pdfjs-${PDFJS_VERSION}/cmaps/`,
+    standardFonts: `${VENDOR_BASE}/pdfjs-${PDFJS_VERSION}/standard_fonts/`,
+  },
+  tesseract: {
+    script: `${VENDOR_BASE}/tesseract-${TESSERACT_VERSION}/tesseract.min.js`,
+    worker: `${VENDOR_BASE}/tesseract-${TESSERACT_VERSION}/worker.min.js`,
+    // Tesseract.jsがCPUの機能に応じてこのディレクトリ内のコアを選ぶ
+    core: `${VENDOR_BASE}/tesseract-core-${TESSERACT_CORE_VERSION}`,
+    lang: `${VENDOR_BASE}/tessdata-${TESSDATA_VERSION}`,
+    legacyLang: `${VENDOR_BASE}/tessdata-${TESSDATA_LEGACY_VERSION}`,
+  },
+  opencv: {
+    script: `${VENDOR_BASE}/opencv-${OPENCV_VERSION}/opencv.js`,
+  },
+};
+
+// 読み込み済み・読み込み中のスクリプト
+const scriptPromises = new Map<string, Promise<void>>();
+
+/**
+ * スクリプトを読み込む（同じURLは一度だけ読み込む）
+ */
+export const loadScript = (src: string): Promise<void> => {
+  const existing = scriptPromises.get(src);
+  if (existing) return existing;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      // 失敗した場合は次回やり直せるようにする
+      scriptPromises.delete(src);
+      script.remove();
+      reject(new Error(`${src} を読み込めませんでした`));
+    };
+    document.head.appendChild(script);
+  });
+  scriptPromises.set(src, promise);
+  return promise;
+};
+
+/**
+ * アセットが配信されているかを確認（見つからなければファイル名を含むエラー）
+ */
+export const assertAssetAvailable = async (url: string): Promise<void> => {
+  const response = await fetch(url, { method: 'HEAD' }).catch(() => null);
+  if (!response || !response.ok) {
+    throw new Error(
+      `${url} が見つかりません${
+        response ? ` (HTTP ${response.status})` : ''
+      }。npm install を実行して public/vendor を作成してください`
+    );
+  }
+};
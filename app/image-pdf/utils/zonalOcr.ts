@@ -0,0 +1,99 @@
+import type { BoundingBox, OCRTextData, ZonalValue } from './types';
+import { convertToUnits } from './coordinateConversion';
+import { getUniqueFieldNames } from './boxFields';
+import {
+  MIN_WORD_OVERLAP,
+  getOverlapArea,
+  toReadingOrderText,
+  type OCRWordItem,
+} from './tableText';
+
+/**
+ * ゾーンOCRの対象となるボックスか（手動ボックスとフィールド設定済みのボックス）
+ */
+export const isZonalBox = (box: BoundingBox): boolean =>
+  !box.kind || box.kind === 'manual' || !!box.field;
+
+/**
+ * ボックス内のOCR単語を読み順に結合し、文字数で重み付けした信頼度を求める
+ * name は getUniqueFieldNames で全ページのボックスから決めたフィールド名
+ */
+export const extractZonalValue = (
+  box: BoundingBox,
+  name: string,
+  textData: OCRTextData | null
+): ZonalValue => {
+  const rect = {
+    x: convertToUnits(box.x, box.unit, 'pt'),
+    y: convertToUnits(box.y, box.unit, 'pt'),
+    width: convertToUnits(box.width, box.unit, 'pt'),
+    height: convertToUnits(box.height, box.unit, 'pt'),
+  };
+
+  const words: OCRWordItem[] = (textData?.words || []).filter((word) => {
+    const wordBox = word.bbox.pt;
+    if (!wordBox || wordBox.width <= 0 || wordBox.height <= 0) return false;
+    return (
+      getOverlapArea(wordBox, rect) >=
+      wordBox.width * wordBox.height * MIN_WORD_OVERLAP
+    );
+  });
+
+  const totalChars = words.reduce(
+    (sum, word) => sum + Math.max(1, word.text.trim().length),
+    0
+  );
+  const confidence =
+    totalChars > 0
+      ? words.reduce(
+          (sum, word) =>
+            sum + word.confidence * Math.max(1, word.text.trim().length),
+          0
+        ) / totalChars
+      : 0;
+
+  return {
+    boxId: box.id,
+    name,
+    page: box.page ?? 1,
+    text: toReadingOrderText(words),
+    confidence: Math.round(confidence * 10) / 10,
+    wordCount: words.length,
+  };
+};
+
+/**
+ * 全ページの対象ボックスの値をページごとのフラットなレコードにまとめる
+ */
+export const buildZonalRecords = (
+  boxes: BoundingBox[],
+  textDataByPage: Record<number, OCRTextData>
+): Array<{
+  page: number;
+  values: Record<string, string>;
+  fields: ZonalValue[];
+}> => {
+  const fieldsByPage = new Map<number, ZonalValue[]>();
+
+  // フィールド名はバウンディングボックスのエクスポートと同じ名前（重複には連番）を使う
+  const names = getUniqueFieldNames(boxes);
+  boxes.forEach((box, index) => {
+    if (!isZonalBox(box)) return;
+    const page = box.page ?? 1;
+    if (!textDataByPage[page]) return;
+    fieldsByPage.set(page, [
+      ...(fieldsByPage.get(page) || []),
+      extractZonalValue(box, names[index], textDataByPage[page]),
+    ]);
+  });
+
+  return Array.from(fieldsByPage.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([page, fields]) => ({
+      page,
+      values: Object.fromEntries(
+        fields.map((field) => [field.name, field.text])
+      ),
+      fields,
+    }));
+};
@@ -14,6 +14,13 @@ import {
 } from '@/components/ui/select';
 import { Upload, Download, Trash2, ZoomIn, ZoomOut } from 'lucide-react';
 import Link from 'next/link';
+import {
+  UNITS,
+  UNIT_COLORS,
+  UNIT_LABELS,
+  toRoundedUnitRect,
+} from './image-pdf/utils/coordinateConversion';
+import type { Unit } from './image-pdf/utils/types';
 
 declare global {
   interface Window {
@@ -27,7 +34,7 @@ interface BoundingBox {
   y: number;
   width: number;
   height: number;
-  unit: 'px' | 'mm' | 'pt';
+  unit: Unit;
 }
 
 interface Point {
@@ -44,7 +51,7 @@ export default function PDFBboxTool() {
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentBox, setCurrentBox] = useState<BoundingBox | null>(null);
-  const [selectedUnit, setSelectedUnit] = useState<'px' | 'mm' | 'pt'>('px');
+  const [selectedUnit, setSelectedUnit] = useState<Unit>('px');
   const [zoom, setZoom] = useState(1);
   const [pdfLoaded, setPdfLoaded] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -69,40 +76,6 @@ export default function PDFBboxTool() {
     };
   }, []);
 
-  // Unit conversion functions
-  const convertUnits = useCallback(
-    (value: number, from: string, to: string): number => {
-      // Convert to points first (base unit)
-      let ptValue: number;
-      switch (from) {
-        case 'pt':
-          ptValue = value;
-          break;
-        case 'px':
-          ptValue = value * 0.75; // 1px = 0.75pt at 96 DPI
-          break;
-        case 'mm':
-          ptValue = value * 2.834645669; // 1mm = 2.834645669pt
-          break;
-        default:
-          ptValue = value;
-      }
-
-      // Convert from points to target unit
-      switch (to) {
-        case 'pt':
-          return ptValue;
-        case 'px':
-          return ptValue / 0.75; // 1pt = 1.333px at 96 DPI
-        case 'mm':
-          return ptValue / 2.834645669; // 1pt = 0.352777778mm
-        default:
-          return ptValue;
-      }
-    },
-    []
-  );
-
   // PDF coordinate system conversion functions
   const convertCanvasToPDF = useCallback(
     async (
@@ -134,28 +107,14 @@ export default function PDFBboxTool() {
         display: { w: displayViewport.width, h: displayViewport.height },
       });
 
+      const pdfRect = { x: pdfX, y: pdfY, width: pdfWidth, height: pdfHeight };
       return {
         // PDF coordinates in points (native PDF unit)
-        pt: {
-          x: Math.round(pdfX * 100) / 100,
-          y: Math.round(pdfY * 100) / 100,
-          width: Math.round(pdfWidth * 100) / 100,
-          height: Math.round(pdfHeight * 100) / 100,
-        },
+        pt: toRoundedUnitRect(pdfRect, 'pt'),
         // Convert to pixels (96 DPI standard)
-        px: {
-          x: Math.round((pdfX / 0.75) * 100) / 100,
-          y: Math.round((pdfY / 0.75) * 100) / 100,
-          width: Math.round((pdfWidth / 0.75) * 100) / 100,
-          height: Math.round((pdfHeight / 0.75) * 100) / 100,
-        },
+        px: toRoundedUnitRect(pdfRect, 'px'),
         // Convert to millimeters
-        mm: {
-          x: Math.round((pdfX / 2.834645669) * 100) / 100,
-          y: Math.round((pdfY / 2.834645669) * 100) / 100,
-          width: Math.round((pdfWidth / 2.834645669) * 100) / 100,
-          height: Math.round((pdfHeight / 2.834645669) * 100) / 100,
-        },
+        mm: toRoundedUnitRect(pdfRect, 'mm'),
       };
     },
     [pdfDocument, currentPage, zoom]
@@ -430,27 +389,13 @@ export default function PDFBboxTool() {
     const data = {
       filename: pdfFile?.name || 'unknown.pdf',
       page: currentPage,
+      // Box coordinates are stored in points; export every unit
       boundingBoxes: boundingBoxes.map((box, index) => ({
         id: box.id,
         index: index + 1,
-        pt: {
-          x: Math.round(box.x * 100) / 100,
-          y: Math.round(box.y * 100) / 100,
-          width: Math.round(box.width * 100) / 100,
-          height: Math.round(box.height * 100) / 100,
-        },
-        px: {
-          x: Math.round((box.x / 0.75) * 100) / 100,
-          y: Math.round((box.y / 0.75) * 100) / 100,
-          width: Math.round((box.width / 0.75) * 100) / 100,
-          height: Math.round((box.height / 0.75) * 100) / 100,
-        },
-        mm: {
-          x: Math.round((box.x / 2.834645669) * 100) / 100,
-          y: Math.round((box.y / 2.834645669) * 100) / 100,
-          width: Math.round((box.width / 2.834645669) * 100) / 100,
-          height: Math.round((box.height / 2.834645669) * 100) / 100,
-        },
+        ...Object.fromEntries(
+          UNITS.map((unit) => [unit, toRoundedUnitRect(box, unit)])
+        ),
       })),
     };
 
@@ -515,17 +460,17 @@ export default function PDFBboxTool() {
                   <Label htmlFor='unit-select'>Default Unit</Label>
                   <Select
                     value={selectedUnit}
-                    onValueChange={(value: 'px' | 'mm' | 'pt') =>
-                      setSelectedUnit(value)
-                    }
+                    onValueChange={(value: Unit) => setSelectedUnit(value)}
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value='px'>Pixels (px)</SelectItem>
-                      <SelectItem value='mm'>Millimeters (mm)</SelectItem>
-                      <SelectItem value='pt'>Points (pt)</SelectItem>
+                      {UNITS.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {UNIT_LABELS[unit]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -649,27 +594,6 @@ export default function PDFBboxTool() {
             <CardContent>
               <div className='space-y-3 max-h-[600px] overflow-y-auto'>
                 {boundingBoxes.map((box, index) => {
-                  const ptValues = {
-                    x: Math.round(box.x * 100) / 100,
-                    y: Math.round(box.y * 100) / 100,
-                    width: Math.round(box.width * 100) / 100,
-                    height: Math.round(box.height * 100) / 100,
-                  };
-
-                  const pxValues = {
-                    x: Math.round((box.x / 0.75) * 100) / 100,
-                    y: Math.round((box.y / 0.75) * 100) / 100,
-                    width: Math.round((box.width / 0.75) * 100) / 100,
-                    height: Math.round((box.height / 0.75) * 100) / 100,
-                  };
-
-                  const mmValues = {
-                    x: Math.round((box.x / 2.834645669) * 100) / 100,
-                    y: Math.round((box.y / 2.834645669) * 100) / 100,
-                    width: Math.round((box.width / 2.834645669) * 100) / 100,
-                    height: Math.round((box.height / 2.834645669) * 100) / 100,
-                  };
-
                   return (
                     <div
                       key={box.id}
@@ -678,41 +602,26 @@ export default function PDFBboxTool() {
                       <div className='font-medium mb-2'>Box {index + 1}</div>
 
                       <div className='space-y-2'>
-                        <div className='text-xs'>
-                          <div className='font-medium text-emerald-600 mb-1'>
-                            Points (pt)
-                          </div>
-                          <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
-                            <div>X: {ptValues.x}</div>
-                            <div>Y: {ptValues.y}</div>
-                            <div>W: {ptValues.width}</div>
-                            <div>H: {ptValues.height}</div>
-                          </div>
-                        </div>
-
-                        <div className='text-xs'>
-                          <div className='font-medium text-blue-600 mb-1'>
-                            Pixels (px)
-                          </div>
-                          <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
-                            <div>X: {pxValues.x}</div>
-                            <div>Y: {pxValues.y}</div>
-                            <div>W: {pxValues.width}</div>
-                            <div>H: {pxValues.height}</div>
-                          </div>
-                        </div>
-
-                        <div className='text-xs'>
-                          <div className='font-medium text-purple-600 mb-1'>
-                            Millimeters (mm)
-                          </div>
-                          <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
-                            <div>X: {mmValues.x}</div>
-                            <div>Y: {mmValues.y}</div>
-                            <div>W: {mmValues.width}</div>
-                            <div>H: {mmValues.height}</div>
-                          </div>
-                        </div>
+                        {Array.from(
+                          new Set<Unit>(['pt', 'px', 'mm', selectedUnit])
+                        ).map((unit) => {
+                          const values = toRoundedUnitRect(box, unit);
+                          return (
+                            <div key={unit} className='text-xs'>
+                              <div
+                                className={`font-medium mb-1 ${UNIT_COLORS[unit]}`}
+                              >
+                                {UNIT_LABELS[unit]}
+                              </div>
+                              <div className='grid grid-cols-2 gap-1 text-muted-foreground'>
+                                <div>X: {values.x}</div>
+                                <div>Y: {values.y}</div>
+                                <div>W: {values.width}</div>
+                                <div>H: {values.height}</div>
+                              </div>
+                            </div>
+                          );
+                        })}
                       </div>
                     </div>
                   );
@@ -0,0 +1,82 @@
+// pdf.js・Tesseract・OpenCVの実行ファイルと学習データを public/vendor にコピーする
+// （ネットワークに接続できない環境でも動作するよう、CDNではなくアプリ自身から配信）
+// 出力先のディレクトリ名は app/image-pdf/utils/vendorAssets.ts のバージョンと揃えること
+import { cpSync, existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const vendorDir = join(root, 'public', 'vendor');
+
+const packageDir = (name) => join(root, 'node_modules', name);
+const packageVersion = (name) =>
+  JSON.parse(readFileSync(join(packageDir(name), 'package.json'), 'utf8'))
+    .version;
+
+// LSTMのみ用（best_int）とレガシーエンジン用
+const TESSDATA = ['4.0.0_best_int', '4.0.0'];
+const TESSERACT_CORE_FILES = [
+  'tesseract-core.wasm.js',
+  'tesseract-core-simd.wasm.js',
+  'tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js',
+];
+
+const assets = [
+  ...['pdf.min.js', 'pdf.worker.min.js'].map((file) => ({
+    from: join(packageDir('pdfjs-dist'), 'build', file),
+    to: join(`pdfjs-${packageVersion('pdfjs-dist')}`, file),
+  })),
+  // 日本語フォントのCMapと標準フォント（ディレクトリごとコピー）
+  ...['cmaps', 'standard_fonts'].map((dir) => ({
+    from: join(packageDir('pdfjs-dist'), dir),
+    to: join(`pdfjs-${packageVersion('pdfjs-dist')}`, dir),
+  })),
+  ...['tesseract.min.js', 'worker.min.js'].map((file) => ({
+    from: join(packageDir('tesseract.js'), 'dist', file),
+    to: join(`tesseract-${packageVersion('tesseract.js')}`, file),
+  })),
+  ...TESSERACT_CORE_FILES.map((file) => ({
+    from: join(packageDir('tesseract.js-core'), file),
+    to: join(`tesseract-core-${packageVersion('tesseract.js-core')}`, file),
+  })),
+  ...TESSDATA.flatMap((tessdata) =>
+    ['eng', 'jpn', 'jpn_vert'].map((lang) => ({
+      from: join(
+        packageDir(`@tesseract.js-data/${lang}`),
+        tessdata,
+        `${lang}.traineddata.gz`
+      ),
+      to: join(`tessdata-${tessdata}`, `${lang}.traineddata.gz`),
+    }))
+  ),
+  // 向き検出（OSD）はレガシーエンジンでのみ動作する
+  {
+    from: join(
+      packageDir('@tesseract.js-data/osd'),
+      '4.0.0',
+      'osd.traineddata.gz'
+    ),
+    to: join('tessdata-4.0.0', 'osd.traineddata.gz'),
+  },
+  {
+    from: join(packageDir('@techstark/opencv-js'), 'dist', 'opencv.js'),
+    to: join(`opencv-${packageVersion('@techstark/opencv-js')}`, 'opencv.js'),
+  },
+];
+
+const missing = assets.filter(({ from }) => !existsSync(from));
+if (missing.length > 0) {
+  missing.forEach(({ from }) => console.error(`Missing asset: ${from}`));
+  process.exit(1);
+}
+
+// 古いバージョンのファイルが残らないよう作り直す
+rmSync(vendorDir, { recursive: true, force: true });
+assets.forEach(({ from, to }) => {
+  const destination = join(vendorDir, to);
+  mkdirSync(dirname(destination), { recursive: true });
+  cpSync(from, destination, { recursive: true });
+});
+
+console.log(`Copied ${assets.length} vendor assets to public/vendor`);